@@ -12,8 +12,15 @@ import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import Analytics from "@/pages/Analytics";
 import Moderation from "@/pages/Moderation";
+import Playlist from "@/pages/Playlist";
+import Clip from "@/pages/Clip";
+import Embed from "@/pages/Embed";
+import PlaybackHealth from "@/pages/PlaybackHealth";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
+import { MiniPlayerProvider } from "@/hooks/use-mini-player";
+import MiniPlayer from "@/components/MiniPlayer";
+import { WatchQueueProvider } from "@/hooks/use-watch-queue";
 
 function Router() {
   return (
@@ -24,6 +31,10 @@ function Router() {
       <ProtectedRoute path="/profile/:id?" component={Profile} />
       <ProtectedRoute path="/analytics/:id?" component={Analytics} />
       <ProtectedRoute path="/moderation" component={Moderation} />
+      <ProtectedRoute path="/playback-health" component={PlaybackHealth} />
+      <Route path="/playlist/:id" component={Playlist} />
+      <Route path="/clip/:id" component={Clip} />
+      <Route path="/embed/:id" component={Embed} />
       <Route path="/search" component={Search} />
       <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
@@ -35,10 +46,15 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
+        <MiniPlayerProvider>
+          <WatchQueueProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Router />
+              <MiniPlayer />
+            </TooltipProvider>
+          </WatchQueueProvider>
+        </MiniPlayerProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
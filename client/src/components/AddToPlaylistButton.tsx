@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Video } from '@shared/schema';
+import { useAuth } from '@/hooks/use-auth';
+import { useUserPlaylists, useCreatePlaylist, useAddToPlaylist, useRemoveFromPlaylist } from '@/hooks/use-playlists';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListVideo, Loader2, Plus } from 'lucide-react';
+import { PlaylistVisibility } from '@/types';
+
+interface AddToPlaylistButtonProps {
+  video: Video;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+export function AddToPlaylistButton({
+  video,
+  size = 'md',
+  className = '',
+}: AddToPlaylistButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newVisibility, setNewVisibility] = useState<PlaylistVisibility>('private');
+
+  const { data: playlists = [], isLoading } = useUserPlaylists(isDialogOpen ? user?.id || null : null);
+  const createPlaylistMutation = useCreatePlaylist();
+  const addToPlaylistMutation = useAddToPlaylist();
+  const removeFromPlaylistMutation = useRemoveFromPlaylist();
+
+  const handleOpen = (e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    if (!user) {
+      toast({
+        title: 'Not logged in',
+        description: 'Please log in to save videos to playlists',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsDialogOpen(true);
+  };
+
+  const handleToggle = (playlistId: number, isInPlaylist: boolean) => {
+    const mutation = isInPlaylist ? removeFromPlaylistMutation : addToPlaylistMutation;
+    mutation.mutate({ playlistId, videoId: video.id }, {
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: isInPlaylist ? 'Failed to remove from playlist' : 'Failed to add to playlist',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    createPlaylistMutation.mutate({ name: newName.trim(), visibility: newVisibility, videoId: video.id }, {
+      onSuccess: () => {
+        toast({
+          title: 'Playlist created',
+          description: `${video.title} was added to ${newName.trim()}`,
+        });
+        setNewName('');
+      },
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'Failed to create playlist',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const sizeClasses = {
+    sm: 'px-3 py-1 text-xs',
+    md: 'px-4 py-2 text-sm',
+    lg: 'px-5 py-2.5 text-base',
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className={`flex items-center gap-1.5 ${sizeClasses[size]} ${className}`}
+        onClick={handleOpen}
+      >
+        <ListVideo className="h-4 w-4" />
+        {size !== 'sm' && <span>Save</span>}
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[420px] bg-slate-900 border-slate-800">
+          <DialogHeader>
+            <DialogTitle className="text-xl text-slate-100">Save to playlist</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Choose where to save "{video.title}"
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-2 space-y-2 max-h-64 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : playlists.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">You don't have any playlists yet.</p>
+            ) : (
+              playlists.map(playlist => {
+                const isInPlaylist = playlist.videoIds.includes(video.id);
+                return (
+                  <label
+                    key={playlist.id}
+                    className="flex items-center gap-3 rounded-md px-2 py-2 text-slate-100 hover:bg-slate-800 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={isInPlaylist}
+                      onCheckedChange={() => handleToggle(playlist.id, isInPlaylist)}
+                    />
+                    <span className="flex-1 truncate">{playlist.name}</span>
+                    <span className="text-xs capitalize text-slate-400">{playlist.visibility}</span>
+                  </label>
+                );
+              })
+            )}
+          </div>
+
+          <form onSubmit={handleCreate} className="space-y-2 border-t border-slate-800 pt-4">
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New playlist name"
+                className="bg-slate-800 border-slate-700 text-slate-100"
+              />
+              <Select value={newVisibility} onValueChange={(value) => setNewVisibility(value as PlaylistVisibility)}>
+                <SelectTrigger className="w-32 bg-slate-800 border-slate-700 text-slate-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="public">Public</SelectItem>
+                  <SelectItem value="unlisted">Unlisted</SelectItem>
+                  <SelectItem value="private">Private</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={!newName.trim() || createPlaylistMutation.isPending}
+              className="w-full border-slate-700 hover:bg-slate-800"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Create playlist
+            </Button>
+          </form>
+
+          <DialogFooter>
+            <Button
+              variant="default"
+              onClick={() => setIsDialogOpen(false)}
+              className="bg-primary hover:bg-primary/90"
+            >
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
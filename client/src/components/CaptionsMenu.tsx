@@ -0,0 +1,83 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Captions, Check } from 'lucide-react';
+import { CaptionTrack } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface CaptionsMenuProps {
+  tracks: CaptionTrack[];
+  selectedLanguage: string | null;
+  onSelect: (language: string | null) => void;
+  className?: string;
+}
+
+export function CaptionsMenu({
+  tracks,
+  selectedLanguage,
+  onSelect,
+  className = '',
+}: CaptionsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (language: string | null) => {
+    onSelect(language);
+    setIsOpen(false);
+  };
+
+  const isActive = !!selectedLanguage && tracks.some(track => track.language === selectedLanguage);
+
+  return (
+    <div className={cn('relative', className)} ref={menuRef}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn('text-white', isActive && 'text-primary')}
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={tracks.length === 0}
+        title={tracks.length === 0 ? 'No captions available' : 'Captions'}
+      >
+        <Captions size={20} />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute bottom-12 right-0 w-44 rounded-md border border-slate-700 bg-black/90 py-1 text-sm text-white shadow-lg">
+          <div className="px-3 py-1.5 text-xs font-medium uppercase tracking-wider text-slate-400">
+            Captions
+          </div>
+          <button
+            className="flex w-full items-center justify-between px-3 py-1.5 hover:bg-slate-800"
+            onClick={() => handleSelect(null)}
+          >
+            <span>Off</span>
+            {!isActive && <Check size={14} />}
+          </button>
+          {tracks.map(track => (
+            <button
+              key={track.id}
+              className="flex w-full items-center justify-between px-3 py-1.5 hover:bg-slate-800"
+              onClick={() => handleSelect(track.language)}
+            >
+              <span>{track.label}</span>
+              {selectedLanguage === track.language && <Check size={14} />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { Chapter } from '@/types';
+import { formatDuration } from '@/lib/video-utils';
+import { cn } from '@/lib/utils';
+
+interface ChapterListProps {
+  chapters: Chapter[];
+  activeIndex: number;
+  onSelect: (chapter: Chapter) => void;
+}
+
+export function ChapterList({ chapters, activeIndex, onSelect }: ChapterListProps) {
+  if (chapters.length === 0) {
+    return null;
+  }
+  
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold tracking-wider text-slate-100 mb-3">Chapters</h3>
+      <ol className="space-y-1">
+        {chapters.map((chapter, index) => (
+          <li key={chapter.start}>
+            <button
+              className={cn(
+                "w-full flex items-center gap-4 rounded-md px-3 py-2 text-left transition-colors",
+                index === activeIndex ? "bg-slate-800 text-white" : "text-slate-300 hover:bg-slate-800/60"
+              )}
+              onClick={() => onSelect(chapter)}
+            >
+              <span className="w-14 text-sm font-medium text-primary">{formatDuration(chapter.start)}</span>
+              <span className="flex-1 truncate">{chapter.title}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
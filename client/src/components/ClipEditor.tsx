@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { useCreateClip } from '@/hooks/use-clips';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Scissors, X } from 'lucide-react';
+import { getClipShareUrl, validateClipRange } from '@/lib/clips';
+import { Clip } from '@/types';
+
+export type ClipRange = {
+  start: number;
+  end: number;
+};
+
+interface ClipEditorProps {
+  videoId: number;
+  currentTime: number;
+  range: ClipRange;
+  onRangeChange: (range: ClipRange) => void;
+  onClose: () => void;
+  formatTime: (seconds: number) => string;
+}
+
+// Panel for marking in/out points on the player and publishing the clip
+export function ClipEditor({
+  videoId,
+  currentTime,
+  range,
+  onRangeChange,
+  onClose,
+  formatTime,
+}: ClipEditorProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const createClipMutation = useCreateClip();
+
+  const rangeError = validateClipRange(range.start, range.end);
+
+  const handlePublish = async () => {
+    if (!title.trim()) {
+      toast({
+        title: 'Title required',
+        description: 'Give your clip a title',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const clip: Clip = await createClipMutation.mutateAsync({
+        videoId,
+        title: title.trim(),
+        start: range.start,
+        end: range.end,
+      });
+
+      navigator.clipboard.writeText(getClipShareUrl(clip.id)).catch(() => {});
+      toast({
+        title: 'Clip published',
+        description: 'The link to your clip has been copied to the clipboard.',
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Failed to publish clip',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div
+      className="w-72 rounded-md border border-slate-700 bg-black/90 p-3 text-sm text-white shadow-lg space-y-3"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 font-medium">
+          <Scissors size={14} />
+          New clip
+        </span>
+        <button className="text-slate-400 hover:text-white" onClick={onClose}>
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          size="sm"
+          variant="secondary"
+          className="h-8"
+          onClick={() => onRangeChange({ ...range, start: currentTime })}
+        >
+          In: {formatTime(range.start)}
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          className="h-8"
+          onClick={() => onRangeChange({ ...range, end: currentTime })}
+        >
+          Out: {formatTime(range.end)}
+        </Button>
+      </div>
+      <p className="text-xs text-slate-400">
+        {rangeError ?? `Set a point to the current position. ${Math.round(range.end - range.start)}s selected.`}
+      </p>
+
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Clip title"
+        maxLength={100}
+        className="h-8 bg-transparent border-slate-600 text-white"
+      />
+
+      <Button
+        className="w-full h-8 bg-primary hover:bg-primary/90 text-white"
+        onClick={handlePublish}
+        disabled={!!rangeError || createClipMutation.isPending}
+      >
+        {createClipMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Publish clip
+      </Button>
+    </div>
+  );
+}
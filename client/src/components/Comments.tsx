@@ -10,6 +10,7 @@ import { cn } from '@/lib/utils';
 import { Separator } from '@/components/ui/separator';
 import { formatDistanceToNow } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
+import { TimestampText } from '@/components/TimestampText';
 
 interface CommentsProps {
   videoId: number;
@@ -276,7 +277,7 @@ export function Comments({ videoId }: CommentsProps) {
                     </div>
                   ) : (
                     <div className="mt-2 text-slate-300 leading-relaxed">
-                      {comment.content}
+                      <TimestampText text={comment.content} />
                     </div>
                   )}
                 </div>
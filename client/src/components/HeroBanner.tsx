@@ -4,7 +4,7 @@ import { HeroBannerProps } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Info, Play } from 'lucide-react';
-import { getThumbnailUrl } from '@/lib/video-utils';
+import { formatDuration, getThumbnailUrl } from '@/lib/video-utils';
 
 const HeroBanner = ({ video, loading = false }: HeroBannerProps) => {
   const [, navigate] = useLocation();
@@ -76,7 +76,14 @@ const HeroBanner = ({ video, loading = false }: HeroBannerProps) => {
           <div className="flex items-center gap-3 mb-4 text-sm">
             <span className="text-green-500 font-medium">97% Match</span>
             <span className="text-slate-300">{new Date().getFullYear()}</span>
-            <span className="text-white px-1 py-0.5 border border-white/30 text-xs">HD</span>
+            {video.duration ? (
+              <span className="text-slate-300">{formatDuration(video.duration)}</span>
+            ) : null}
+            {video.height ? (
+              <span className="text-white px-1 py-0.5 border border-white/30 text-xs">
+                {video.height >= 2160 ? '4K' : video.height >= 720 ? 'HD' : 'SD'}
+              </span>
+            ) : null}
           </div>
           
           {/* Description */}
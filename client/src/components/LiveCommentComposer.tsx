@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Send } from 'lucide-react';
+import { LIVE_COMMENT_MAX_LENGTH } from '@/lib/live-comments';
+import { formatDuration } from '@/lib/video-utils';
+
+interface LiveCommentComposerProps {
+  currentTime: number;
+  isPosting: boolean;
+  onPost: (content: string, timestamp: number) => Promise<void>;
+  // Reports while the box is focused or holds a draft, so the player keeps it on screen
+  onActiveChange?: (active: boolean) => void;
+}
+
+// Short comment box pinned to the current playback position
+export function LiveCommentComposer({ currentTime, isPosting, onPost, onActiveChange }: LiveCommentComposerProps) {
+  const [content, setContent] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const isActive = isFocused || content.trim() !== '';
+
+  // Cleared on unmount too, so a hidden box doesn't hold the controls open
+  useEffect(() => {
+    if (!isActive) return;
+    onActiveChange?.(true);
+    return () => onActiveChange?.(false);
+  }, [isActive]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    try {
+      await onPost(content.trim(), currentTime);
+      setContent('');
+    } catch {
+      // The caller reports the failure; keep the text so it can be resent
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2 rounded-md bg-black/70 p-1.5">
+      <Input
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        maxLength={LIVE_COMMENT_MAX_LENGTH}
+        placeholder={`Comment at ${formatDuration(currentTime)}`}
+        className="h-8 w-56 bg-transparent border-slate-600 text-white text-sm"
+        onClick={(e) => e.stopPropagation()}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+      />
+      <Button
+        type="submit"
+        size="icon"
+        className="h-8 w-8 bg-primary hover:bg-primary/90 text-white"
+        disabled={!content.trim() || isPosting}
+      >
+        <Send size={14} />
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { EyeOff, Flag } from 'lucide-react';
+import { LiveComment, LiveCommentDensity } from '@/types';
+import {
+  LIVE_COMMENT_DURATION,
+  getHiddenLiveCommentIds,
+  getVisibleLiveComments,
+  liveCommentDensities,
+  saveHiddenLiveCommentIds,
+} from '@/lib/live-comments';
+import { cn } from '@/lib/utils';
+
+interface LiveCommentOverlayProps {
+  comments: LiveComment[];
+  currentTime: number;
+  isPlaying: boolean;
+  density: LiveCommentDensity;
+  seekVersion: number; // Bumped on every seek so scrolling restarts in sync
+  onReport: (comment: LiveComment) => void;
+}
+
+// Danmaku-style comments scrolling across the video at their timestamps
+export function LiveCommentOverlay({
+  comments,
+  currentTime,
+  isPlaying,
+  density,
+  seekVersion,
+  onReport,
+}: LiveCommentOverlayProps) {
+  const [hiddenIds, setHiddenIds] = useState(getHiddenLiveCommentIds);
+  const { lanes } = liveCommentDensities[density];
+
+  const visibleComments = getVisibleLiveComments(comments, currentTime, density, hiddenIds);
+
+  const handleHide = (commentId: number) => {
+    const next = new Set(hiddenIds);
+    next.add(commentId);
+    setHiddenIds(next);
+    saveHiddenLiveCommentIds(next);
+  };
+
+  return (
+    <div className="absolute inset-x-0 top-24 overflow-hidden pointer-events-none" style={{ height: `${lanes * 2.25}rem` }}>
+      {visibleComments.map(comment => (
+        <LiveCommentItem
+          key={`${comment.id}-${seekVersion}`}
+          comment={comment}
+          lane={comment.id % lanes}
+          initialOffset={currentTime - comment.timestamp}
+          isPlaying={isPlaying}
+          onHide={() => handleHide(comment.id)}
+          onReport={() => {
+            onReport(comment);
+            handleHide(comment.id);
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface LiveCommentItemProps {
+  comment: LiveComment;
+  lane: number;
+  initialOffset: number; // Seconds since the comment's timestamp when it appeared
+  isPlaying: boolean;
+  onHide: () => void;
+  onReport: () => void;
+}
+
+function LiveCommentItem({ comment, lane, initialOffset, isPlaying, onHide, onReport }: LiveCommentItemProps) {
+  // Fixed at mount: changing the delay of a running animation makes it jump
+  const [animationDelay] = useState(`-${Math.max(0, initialOffset)}s`);
+
+  return (
+    <div
+      className={cn(
+        'live-comment group absolute left-full flex items-center gap-1 whitespace-nowrap pointer-events-auto hover:[animation-play-state:paused]',
+        !isPlaying && '[animation-play-state:paused]'
+      )}
+      style={{
+        top: `${lane * 2.25}rem`,
+        animationDuration: `${LIVE_COMMENT_DURATION}s`,
+        // Start part-way across if the comment's moment has already passed
+        animationDelay,
+      }}
+    >
+      <span className="text-white text-lg font-semibold [text-shadow:0_0_3px_black,0_0_3px_black]">
+        {comment.content}
+      </span>
+      <span className="hidden group-hover:flex items-center gap-1 rounded bg-black/80 px-1 py-0.5">
+        <button
+          className="text-slate-300 hover:text-white"
+          title="Hide"
+          onClick={onHide}
+        >
+          <EyeOff size={14} />
+        </button>
+        <button
+          className="text-slate-300 hover:text-red-400"
+          title="Report"
+          onClick={onReport}
+        >
+          <Flag size={14} />
+        </button>
+      </span>
+    </div>
+  );
+}
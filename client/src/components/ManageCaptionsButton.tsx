@@ -0,0 +1,195 @@
+import { useState, useRef } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useVideoCaptions, useAddCaption, useDeleteCaption } from '@/hooks/use-captions';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Captions, FileText, Loader2, Trash2 } from 'lucide-react';
+import { captionLanguages, getLanguageLabel, toVttFile } from '@/lib/captions';
+
+interface ManageCaptionsButtonProps {
+  videoId: number;
+  ownerId: number;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+export function ManageCaptionsButton({
+  videoId,
+  ownerId,
+  size = 'md',
+  className = '',
+}: ManageCaptionsButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [language, setLanguage] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: tracks = [] } = useVideoCaptions(isDialogOpen ? videoId : null);
+  const addCaptionMutation = useAddCaption();
+  const deleteCaptionMutation = useDeleteCaption();
+
+  // Only the uploader can manage captions
+  if (!user || user.id !== ownerId) {
+    return null;
+  }
+
+  const handleAdd = async () => {
+    if (!language || !file) {
+      toast({
+        title: 'Missing details',
+        description: 'Choose a language and a subtitle file.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const vttFile = await toVttFile(file);
+      await addCaptionMutation.mutateAsync({
+        videoId,
+        language,
+        label: getLanguageLabel(language),
+        file: vttFile,
+      });
+      setLanguage('');
+      setFile(null);
+      toast({
+        title: 'Captions added',
+        description: `${getLanguageLabel(language)} subtitles are now available.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to add captions',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = (captionId: number) => {
+    deleteCaptionMutation.mutate({ videoId, captionId }, {
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'Failed to remove captions',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const sizeClasses = {
+    sm: 'px-3 py-1 text-xs',
+    md: 'px-4 py-2 text-sm',
+    lg: 'px-5 py-2.5 text-base',
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className={`flex items-center gap-1.5 ${sizeClasses[size]} ${className}`}
+        onClick={() => setIsDialogOpen(true)}
+      >
+        <Captions className="h-4 w-4" />
+        <span>Captions</span>
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px] bg-slate-900 border-slate-800">
+          <DialogHeader>
+            <DialogTitle className="text-xl text-slate-100">Subtitles</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Upload .srt or .vtt files, one per language.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4 space-y-4">
+            {tracks.length > 0 && (
+              <div className="space-y-2">
+                {tracks.map(track => (
+                  <div
+                    key={track.id}
+                    className="flex items-center justify-between rounded-md bg-slate-800 px-3 py-2 text-slate-100"
+                  >
+                    <span>{track.label}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(track.id)}
+                      disabled={deleteCaptionMutation.isPending}
+                      className="h-8 w-8 p-0 text-red-500 hover:text-red-400 hover:bg-slate-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label className="text-slate-200">Language</Label>
+              <Select value={language} onValueChange={setLanguage}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-100">
+                  <SelectValue placeholder="Select language" />
+                </SelectTrigger>
+                <SelectContent>
+                  {captionLanguages.map(option => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div
+              className="border-2 border-dashed border-slate-700 rounded p-4 text-center cursor-pointer"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileText className="h-6 w-6 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-slate-300">{file ? file.name : 'Choose subtitle file'}</p>
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                accept=".srt,.vtt,text/vtt"
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsDialogOpen(false)}
+              className="bg-transparent border-slate-700 text-slate-300 hover:bg-slate-800"
+            >
+              Close
+            </Button>
+            <Button
+              onClick={handleAdd}
+              disabled={addCaptionMutation.isPending}
+              className="bg-primary hover:bg-primary/90"
+            >
+              {addCaptionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Subtitles
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { useMiniPlayer } from '@/hooks/use-mini-player';
+import { useHlsPlayer } from '@/hooks/use-hls';
+import { useVideoElement } from '@/hooks/use-video-element';
+import { usePlayerPreferences } from '@/hooks/use-player-preferences';
+import { Button } from '@/components/ui/button';
+import { Maximize2, Pause, Play, PictureInPicture2, X } from 'lucide-react';
+import { isPictureInPictureSupported, togglePictureInPicture } from '@/lib/picture-in-picture';
+
+// Corner player that keeps a video going while the viewer browses
+const MiniPlayer = () => {
+  const [location, navigate] = useLocation();
+  const { session, closeMiniPlayer, updateMiniPlayerTime } = useMiniPlayer();
+  const { preferences } = usePlayerPreferences();
+  const [isPlaying, setIsPlaying] = useState(true);
+  const { videoRef, videoElement, attachVideo } = useVideoElement();
+
+  const video = session?.video ?? null;
+  useHlsPlayer(videoElement, video);
+
+  // Pick up from where the full-size player left off
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !session) return;
+
+    const startPlayback = () => {
+      videoElement.currentTime = session.startTime;
+      videoElement.play().catch(err => {
+        console.error('Failed to play mini-player:', err);
+        setIsPlaying(false);
+      });
+    };
+
+    if (videoElement.readyState >= 1) {
+      startPlayback();
+    } else {
+      videoElement.addEventListener('loadedmetadata', startPlayback, { once: true });
+    }
+
+    return () => videoElement.removeEventListener('loadedmetadata', startPlayback);
+  }, [session]);
+
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement) return;
+
+    videoElement.volume = preferences.volume;
+    videoElement.muted = preferences.muted;
+    videoElement.playbackRate = preferences.playbackRate;
+  }, [session, preferences.volume, preferences.muted, preferences.playbackRate]);
+
+  // Watch pages take over their own playback
+  useEffect(() => {
+    if (session && location.startsWith('/watch/')) {
+      closeMiniPlayer();
+    }
+  }, [location, session, closeMiniPlayer]);
+
+  if (!session || !video) {
+    return null;
+  }
+
+  const togglePlay = () => {
+    if (!videoRef.current) return;
+
+    if (videoRef.current.paused) {
+      videoRef.current.play().catch(err => {
+        console.error('Failed to play:', err);
+      });
+    } else {
+      videoRef.current.pause();
+    }
+  };
+
+  const handleExpand = () => {
+    // The watch page asks for the handoff position when it mounts
+    navigate(`/watch/${video.id}`);
+  };
+
+  const handlePictureInPicture = () => {
+    if (!videoRef.current) return;
+
+    togglePictureInPicture(videoRef.current).catch(err => {
+      console.error('Picture-in-Picture failed:', err);
+    });
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-72 md:w-80 rounded-md overflow-hidden bg-black shadow-2xl border border-slate-700 group">
+      <video
+        ref={attachVideo}
+        className="w-full aspect-video object-contain bg-black cursor-pointer"
+        onClick={handleExpand}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onTimeUpdate={(e) => updateMiniPlayerTime(e.currentTarget.currentTime)}
+        onEnded={closeMiniPlayer}
+      />
+
+      <div className="absolute inset-x-0 top-0 flex justify-end gap-1 p-1 bg-gradient-to-b from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
+        {isPictureInPictureSupported() && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-white hover:bg-white/10"
+            onClick={handlePictureInPicture}
+          >
+            <PictureInPicture2 size={16} />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-white hover:bg-white/10"
+          onClick={handleExpand}
+        >
+          <Maximize2 size={16} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-white hover:bg-white/10"
+          onClick={closeMiniPlayer}
+        >
+          <X size={16} />
+        </Button>
+      </div>
+
+      <div className="absolute inset-x-0 bottom-0 flex items-center gap-2 p-2 bg-gradient-to-t from-black/90 to-transparent">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-white hover:bg-white/10"
+          onClick={togglePlay}
+        >
+          {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+        </Button>
+        <span className="text-white text-sm font-medium truncate">{video.title}</span>
+      </div>
+    </div>
+  );
+};
+
+export default MiniPlayer;
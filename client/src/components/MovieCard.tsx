@@ -1,17 +1,21 @@
 import { useLocation } from 'wouter';
 import { MovieCardProps } from '@/types';
 import { useAddToWatchlist, useRemoveFromWatchlist, useIsInWatchlist } from '@/hooks/use-movies';
-import { Plus, Check, Play, Share } from 'lucide-react';
+import { Plus, Check, Play, Share, ListPlus, ListChecks } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { getThumbnailUrl } from '@/lib/video-utils';
+import { formatDuration, getThumbnailUrl } from '@/lib/video-utils';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 import { ShareButton } from '@/components/ShareButton';
+import { useWatchQueue } from '@/hooks/use-watch-queue';
+import { AddToPlaylistButton } from '@/components/AddToPlaylistButton';
+import { VideoStatusBadge } from '@/components/VideoStatusBadge';
 
 const MovieCard = ({ video }: MovieCardProps) => {
   const [, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { addToQueue, removeFromQueue, isQueued } = useWatchQueue();
   
   // Get watchlist status
   const { data: watchlistData } = useIsInWatchlist(
@@ -34,6 +38,24 @@ const MovieCard = ({ video }: MovieCardProps) => {
     navigate(`/watch/${video.id}`);
   };
   
+  const handleQueueToggle = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    
+    if (isQueued(video.id)) {
+      removeFromQueue(video.id);
+      toast({
+        title: "Removed from queue",
+        description: `${video.title} won't play next`,
+      });
+    } else {
+      addToQueue(video);
+      toast({
+        title: "Added to queue",
+        description: `${video.title} will play next`,
+      });
+    }
+  };
+  
   const handleWatchlistToggle = (e: React.MouseEvent) => {
     e.stopPropagation();
     
@@ -99,9 +121,29 @@ const MovieCard = ({ video }: MovieCardProps) => {
         className="w-full object-cover aspect-video transform group-hover:scale-110 transition-transform duration-500"
       />
       
+      {/* Transcoding status, only ever on the uploader's own videos */}
+      <VideoStatusBadge video={video} className="absolute top-2 left-2" />
+      
+      {/* Runtime badge */}
+      {video.duration ? (
+        <span className="absolute top-2 right-2 rounded-sm bg-black/80 px-1 text-[10px] font-medium text-white">
+          {formatDuration(video.duration)}
+        </span>
+      ) : null}
+      
       {/* Gradient overlay always visible */}
       <div className="absolute inset-x-0 bottom-0 h-1/2 bg-gradient-to-t from-black/90 to-transparent"></div>
       
+      {/* Watch progress for Continue Watching */}
+      {video.progress !== undefined && (
+        <div className="absolute inset-x-0 bottom-0 h-1 bg-slate-600/80 z-[1]">
+          <div 
+            className="bg-primary h-full" 
+            style={{ width: `${Math.min(video.progress, 1) * 100}%` }}
+          ></div>
+        </div>
+      )}
+      
       {/* Title always visible */}
       <div className="absolute bottom-0 left-0 right-0 p-3">
         <h4 className="font-bold text-sm md:text-base text-white truncate">{video.title}</h4>
@@ -118,6 +160,13 @@ const MovieCard = ({ video }: MovieCardProps) => {
               className="h-7 w-7 p-0 rounded-full bg-slate-800/80 border border-slate-600 hover:bg-primary hover:text-white"
             />
           </div>
+          <div onClick={(e) => e.stopPropagation()}>
+            <AddToPlaylistButton 
+              video={video} 
+              size="sm" 
+              className="h-7 w-7 p-0 rounded-full bg-slate-800/80 border border-slate-600 hover:bg-primary hover:text-white"
+            />
+          </div>
           <Button 
             variant="ghost" 
             size="icon" 
@@ -150,14 +199,24 @@ const MovieCard = ({ video }: MovieCardProps) => {
               <Play size={12} className="mr-1" />
               Play
             </Button>
-            <Button 
-              variant="ghost" 
-              size="icon" 
-              className="h-7 w-7 rounded-full border border-slate-400 text-white hover:border-white"
-              onClick={handleWatchlistToggle}
-            >
-              {isInWatchlist ? <Check size={14} /> : <Plus size={14} />}
-            </Button>
+            <div className="flex gap-1.5">
+              <Button 
+                variant="ghost" 
+                size="icon" 
+                className="h-7 w-7 rounded-full border border-slate-400 text-white hover:border-white"
+                onClick={handleQueueToggle}
+              >
+                {isQueued(video.id) ? <ListChecks size={14} /> : <ListPlus size={14} />}
+              </Button>
+              <Button 
+                variant="ghost" 
+                size="icon" 
+                className="h-7 w-7 rounded-full border border-slate-400 text-white hover:border-white"
+                onClick={handleWatchlistToggle}
+              >
+                {isInWatchlist ? <Check size={14} /> : <Plus size={14} />}
+              </Button>
+            </div>
           </div>
         </div>
       </div>
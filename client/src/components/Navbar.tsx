@@ -11,7 +11,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Search, Upload, ChevronDown, LogOut, Shield } from "lucide-react";
+import { Search, Upload, ChevronDown, LogOut, Shield, Activity } from "lucide-react";
 
 const Navbar = () => {
   const [isScrolled, setIsScrolled] = useState(false);
@@ -154,6 +154,13 @@ const Navbar = () => {
                     </a>
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild className="px-4 py-2 hover:bg-slate-800 rounded-none focus:bg-slate-800">
+                  <Link href={`/profile/${user.id}#playlists`}>
+                    <a className="w-full cursor-pointer text-white">
+                      <span className="font-medium text-sm">Playlists</span>
+                    </a>
+                  </Link>
+                </DropdownMenuItem>
                 
                 {/* Admin functionality - Only visible to Gorilla Tag Dev (user ID 1) */}
                 {user.id === 1 && (
@@ -167,6 +174,14 @@ const Navbar = () => {
                         </a>
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild className="px-4 py-2 hover:bg-slate-800 rounded-none focus:bg-slate-800">
+                      <Link href="/playback-health">
+                        <a className="w-full cursor-pointer text-red-500">
+                          <Activity className="mr-2 h-4 w-4" />
+                          <span className="font-medium text-sm">Playback Health</span>
+                        </a>
+                      </Link>
+                    </DropdownMenuItem>
                   </>
                 )}
                 
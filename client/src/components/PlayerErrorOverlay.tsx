@@ -0,0 +1,68 @@
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Flag, Loader2, RotateCcw, WifiOff } from 'lucide-react';
+import { PlaybackFailure, playbackErrorMessages } from '@/lib/playback-errors';
+
+interface PlayerErrorOverlayProps {
+  failure: PlaybackFailure | null;
+  isRecovering: boolean;
+  isReporting: boolean;
+  hasReported: boolean;
+  onRetry: () => void;
+  onReport: () => void;
+}
+
+// Shown over the video while playback is being recovered, and in place of
+// a black screen once it can't be
+export function PlayerErrorOverlay({
+  failure,
+  isRecovering,
+  isReporting,
+  hasReported,
+  onRetry,
+  onReport,
+}: PlayerErrorOverlayProps) {
+  if (!failure) {
+    if (!isRecovering) return null;
+
+    return (
+      <div className="absolute top-28 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-md bg-black/80 px-4 py-2 text-sm text-white pointer-events-none">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Playback interrupted, retrying…
+      </div>
+    );
+  }
+
+  const message = playbackErrorMessages[failure.kind];
+  const Icon = failure.kind === 'network' ? WifiOff : AlertTriangle;
+
+  return (
+    <div
+      className="absolute inset-0 z-10 flex items-center justify-center bg-black/85 text-white"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="max-w-md px-6 text-center">
+        <Icon className="h-10 w-10 mx-auto mb-4 text-primary" />
+        <h2 className="text-xl font-bold mb-2">{message.title}</h2>
+        <p className="text-slate-300 mb-6">{message.description}</p>
+        <div className="flex flex-wrap justify-center gap-3">
+          <Button className="bg-white hover:bg-white/90 text-black font-semibold" onClick={onRetry}>
+            <RotateCcw size={16} className="mr-1" />
+            Try again
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={onReport}
+            disabled={isReporting || hasReported}
+          >
+            {isReporting ? (
+              <Loader2 size={16} className="mr-1 animate-spin" />
+            ) : (
+              <Flag size={16} className="mr-1" />
+            )}
+            {hasReported ? 'Problem reported' : 'Report playback problem'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { SlidersHorizontal, Volume2, VolumeX } from 'lucide-react';
+import { LiveCommentDensity, PlayerPreferences } from '@/types';
+import { playbackRates } from '@/lib/video-utils';
+import { liveCommentDensities } from '@/lib/live-comments';
+import { cn } from '@/lib/utils';
+
+interface PlayerSettingsMenuProps {
+  preferences: PlayerPreferences;
+  onChange: (changes: Partial<PlayerPreferences>) => void;
+  className?: string;
+}
+
+export function PlayerSettingsMenu({
+  preferences,
+  onChange,
+  className = '',
+}: PlayerSettingsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the panel
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const volumePercent = preferences.muted ? 0 : Math.round(preferences.volume * 100);
+
+  // Rendered inline rather than in a portal so it stays visible in fullscreen
+  return (
+    <div className={cn('relative', className)} ref={menuRef}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-white"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <SlidersHorizontal size={20} />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute bottom-12 right-0 w-64 rounded-md border border-slate-700 bg-black/90 p-3 text-sm text-white shadow-lg space-y-4">
+          <div>
+            <div className="mb-2 text-xs font-medium uppercase tracking-wider text-slate-400">Volume</div>
+            <div className="flex items-center gap-3">
+              <button
+                className="text-white"
+                onClick={() => onChange({ muted: !preferences.muted })}
+              >
+                {volumePercent === 0 ? <VolumeX size={16} /> : <Volume2 size={16} />}
+              </button>
+              <Slider
+                value={[volumePercent]}
+                min={0}
+                max={100}
+                step={1}
+                onValueChange={([value]) => onChange({ volume: value / 100, muted: value === 0 })}
+              />
+              <span className="w-9 text-right text-xs text-slate-300">{volumePercent}%</span>
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-2 text-xs font-medium uppercase tracking-wider text-slate-400">Playback speed</div>
+            <div className="grid grid-cols-4 gap-1">
+              {playbackRates.map(rate => (
+                <button
+                  key={rate}
+                  className={cn(
+                    'rounded px-1 py-1 text-xs hover:bg-slate-800',
+                    preferences.playbackRate === rate && 'bg-primary hover:bg-primary/90'
+                  )}
+                  onClick={() => onChange({ playbackRate: rate })}
+                >
+                  {rate === 1 ? 'Normal' : `${rate}x`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span>Loop video</span>
+            <Switch
+              checked={preferences.loop}
+              onCheckedChange={(checked) => onChange({ loop: checked })}
+            />
+          </div>
+
+          <div>
+            <div className="mb-2 text-xs font-medium uppercase tracking-wider text-slate-400">Live comment density</div>
+            <div className="grid grid-cols-3 gap-1">
+              {(Object.keys(liveCommentDensities) as LiveCommentDensity[]).map(density => (
+                <button
+                  key={density}
+                  className={cn(
+                    'rounded px-1 py-1 text-xs hover:bg-slate-800',
+                    preferences.liveCommentDensity === density && 'bg-primary hover:bg-primary/90'
+                  )}
+                  onClick={() => onChange({ liveCommentDensity: density })}
+                >
+                  {liveCommentDensities[density].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span>Autoplay next</span>
+            <Switch
+              checked={preferences.autoplay}
+              onCheckedChange={(checked) => onChange({ autoplay: checked })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
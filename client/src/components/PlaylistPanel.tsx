@@ -0,0 +1,96 @@
+import { useLocation } from 'wouter';
+import { PlaylistRepeatMode, PlaylistWithVideos } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Repeat, Repeat1, Shuffle, Lock, Link2 } from 'lucide-react';
+import { getThumbnailUrl } from '@/lib/video-utils';
+import { getPlaylistWatchUrl } from '@/lib/playlists';
+import { cn } from '@/lib/utils';
+
+interface PlaylistPanelProps {
+  playlist: PlaylistWithVideos;
+  currentVideoId: number;
+  shuffle: boolean;
+  repeat: PlaylistRepeatMode;
+  onShuffleChange: (shuffle: boolean) => void;
+  onRepeatChange: (repeat: PlaylistRepeatMode) => void;
+}
+
+const nextRepeatMode: Record<PlaylistRepeatMode, PlaylistRepeatMode> = {
+  off: 'all',
+  all: 'one',
+  one: 'off',
+};
+
+export function PlaylistPanel({
+  playlist,
+  currentVideoId,
+  shuffle,
+  repeat,
+  onShuffleChange,
+  onRepeatChange,
+}: PlaylistPanelProps) {
+  const [, navigate] = useLocation();
+  const currentIndex = playlist.videos.findIndex(video => video.id === currentVideoId);
+
+  return (
+    <aside className="rounded-lg border border-slate-800 bg-slate-900/60 overflow-hidden">
+      <div className="p-4 border-b border-slate-800">
+        <button
+          className="text-left font-semibold text-slate-100 hover:underline truncate w-full"
+          onClick={() => navigate(`/playlist/${playlist.id}`)}
+        >
+          {playlist.name}
+        </button>
+        <div className="flex items-center justify-between mt-1">
+          <span className="flex items-center gap-1 text-xs text-slate-400">
+            {playlist.visibility === 'private' && <Lock size={12} />}
+            {playlist.visibility === 'unlisted' && <Link2 size={12} />}
+            {currentIndex + 1} / {playlist.videos.length}
+          </span>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn('h-8 w-8 hover:bg-slate-800', shuffle ? 'text-primary' : 'text-slate-400')}
+              onClick={() => onShuffleChange(!shuffle)}
+              title="Shuffle"
+            >
+              <Shuffle size={16} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn('h-8 w-8 hover:bg-slate-800', repeat !== 'off' ? 'text-primary' : 'text-slate-400')}
+              onClick={() => onRepeatChange(nextRepeatMode[repeat])}
+              title={repeat === 'one' ? 'Repeat video' : repeat === 'all' ? 'Repeat playlist' : 'Repeat off'}
+            >
+              {repeat === 'one' ? <Repeat1 size={16} /> : <Repeat size={16} />}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ol className="max-h-[28rem] overflow-y-auto">
+        {playlist.videos.map((video, index) => (
+          <li key={video.id}>
+            <button
+              className={cn(
+                'w-full flex items-center gap-3 px-3 py-2 text-left transition-colors',
+                video.id === currentVideoId ? 'bg-slate-800' : 'hover:bg-slate-800/60'
+              )}
+              onClick={() => navigate(getPlaylistWatchUrl(video.id, playlist.id))}
+            >
+              <span className="w-5 text-xs text-slate-400 text-center">{index + 1}</span>
+              <img
+                src={getThumbnailUrl(video)}
+                alt={video.title}
+                className="w-24 aspect-video object-cover rounded"
+              />
+              <span className="flex-1 text-sm text-slate-200 line-clamp-2">{video.title}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+}
@@ -0,0 +1,114 @@
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Repeat, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { LoopRange, MAX_ZOOM, ZOOM_STEP, isLoopActive, practiceRates } from '@/lib/practice';
+import { cn } from '@/lib/utils';
+
+interface PracticeToolbarProps {
+  loop: LoopRange;
+  playbackRate: number;
+  zoom: number;
+  isPlaying: boolean;
+  onSetA: () => void;
+  onSetB: () => void;
+  onClearLoop: () => void;
+  onStepFrame: (direction: 1 | -1) => void;
+  onRateChange: (rate: number) => void;
+  onZoomChange: (zoom: number) => void;
+  formatTime: (seconds: number) => string;
+}
+
+// Tools for studying a movement technique, shown only in practice mode
+export function PracticeToolbar({
+  loop,
+  playbackRate,
+  zoom,
+  isPlaying,
+  onSetA,
+  onSetB,
+  onClearLoop,
+  onStepFrame,
+  onRateChange,
+  onZoomChange,
+  formatTime,
+}: PracticeToolbarProps) {
+  const buttonClass = 'h-8 px-2 text-xs text-white hover:bg-white/10';
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-1 rounded-md border border-slate-700 bg-black/80 p-1 text-white"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Button variant="ghost" className={cn(buttonClass, loop.a !== null && 'text-sky-400')} onClick={onSetA}>
+        A{loop.a !== null && ` ${formatTime(loop.a)}`}
+      </Button>
+      <Button variant="ghost" className={cn(buttonClass, loop.b !== null && 'text-sky-400')} onClick={onSetB}>
+        B{loop.b !== null && ` ${formatTime(loop.b)}`}
+      </Button>
+      {(loop.a !== null || loop.b !== null) && (
+        <Button variant="ghost" size="icon" className="h-8 w-8 text-white hover:bg-white/10" onClick={onClearLoop} title="Clear loop">
+          {isLoopActive(loop) ? <Repeat size={14} className="text-sky-400" /> : <X size={14} />}
+        </Button>
+      )}
+
+      <div className="mx-1 h-5 w-px bg-slate-700" />
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-white hover:bg-white/10"
+        onClick={() => onStepFrame(-1)}
+        disabled={isPlaying}
+        title="Previous frame (,)"
+      >
+        <ChevronLeft size={16} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-white hover:bg-white/10"
+        onClick={() => onStepFrame(1)}
+        disabled={isPlaying}
+        title="Next frame (.)"
+      >
+        <ChevronRight size={16} />
+      </Button>
+
+      <div className="mx-1 h-5 w-px bg-slate-700" />
+
+      {practiceRates.map(rate => (
+        <Button
+          key={rate}
+          variant="ghost"
+          className={cn(buttonClass, playbackRate === rate && 'bg-primary hover:bg-primary/90')}
+          onClick={() => onRateChange(rate)}
+        >
+          {rate}x
+        </Button>
+      ))}
+
+      <div className="mx-1 h-5 w-px bg-slate-700" />
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-white hover:bg-white/10"
+        onClick={() => onZoomChange(zoom - ZOOM_STEP)}
+        disabled={zoom <= 1}
+        title="Zoom out"
+      >
+        <ZoomOut size={16} />
+      </Button>
+      <span className="w-10 text-center text-xs">{zoom}x</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-white hover:bg-white/10"
+        onClick={() => onZoomChange(zoom + ZOOM_STEP)}
+        disabled={zoom >= MAX_ZOOM}
+        title="Zoom in (drag to pan)"
+      >
+        <ZoomIn size={16} />
+      </Button>
+    </div>
+  );
+}
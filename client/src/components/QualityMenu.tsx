@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Settings } from 'lucide-react';
+import { QualityLevel } from '@/types';
+import { formatQualityLabel } from '@/lib/video-utils';
+import { AUTO_QUALITY } from '@/hooks/use-hls';
+import { cn } from '@/lib/utils';
+
+interface QualityMenuProps {
+  levels: QualityLevel[];
+  selectedLevel: number;
+  activeLevel: number;
+  onSelect: (level: number) => void;
+  className?: string;
+}
+
+export function QualityMenu({
+  levels,
+  selectedLevel,
+  activeLevel,
+  onSelect,
+  className = '',
+}: QualityMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Nothing to choose from with a single rendition
+  if (levels.length < 2) {
+    return null;
+  }
+
+  const activeHeight = levels.find(level => level.index === activeLevel)?.height || 0;
+
+  const handleSelect = (level: number) => {
+    onSelect(level);
+    setIsOpen(false);
+  };
+
+  // Rendered inline rather than in a portal so it stays visible in fullscreen
+  return (
+    <div className={cn('relative', className)} ref={menuRef}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-white"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <Settings size={20} />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute bottom-12 right-0 w-44 rounded-md border border-slate-700 bg-black/90 py-1 text-sm text-white shadow-lg">
+          <div className="px-3 py-1.5 text-xs font-medium uppercase tracking-wider text-slate-400">
+            Quality
+          </div>
+          {levels.map(level => (
+            <button
+              key={level.index}
+              className="flex w-full items-center justify-between px-3 py-1.5 hover:bg-slate-800"
+              onClick={() => handleSelect(level.index)}
+            >
+              <span>{formatQualityLabel(level.height)}</span>
+              {selectedLevel === level.index && <Check size={14} />}
+            </button>
+          ))}
+          <button
+            className="flex w-full items-center justify-between px-3 py-1.5 hover:bg-slate-800"
+            onClick={() => handleSelect(AUTO_QUALITY)}
+          >
+            <span>
+              Auto
+              {selectedLevel === AUTO_QUALITY && activeHeight > 0 && (
+                <span className="ml-1 text-slate-400">({formatQualityLabel(activeHeight)})</span>
+              )}
+            </span>
+            {selectedLevel === AUTO_QUALITY && <Check size={14} />}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
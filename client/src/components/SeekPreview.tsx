@@ -0,0 +1,40 @@
+import { StoryboardFrame } from '@/types';
+
+interface SeekPreviewProps {
+  time: number;
+  position: number; // Fraction of the seek bar width (0-1)
+  frame: StoryboardFrame | null;
+  label?: string;
+  formatTime: (time: number) => string;
+}
+
+// Frame preview and timestamp floating above the seek bar
+export function SeekPreview({ time, position, frame, label, formatTime }: SeekPreviewProps) {
+  return (
+    <div
+      className="absolute bottom-4 -translate-x-1/2 flex flex-col items-center pointer-events-none"
+      style={{
+        // Keep the preview from running off either edge of the player
+        left: `clamp(${(frame?.width || 80) / 2}px, ${position * 100}%, calc(100% - ${(frame?.width || 80) / 2}px))`,
+      }}
+    >
+      {frame && (
+        <div
+          className="rounded border-2 border-white/90 shadow-lg bg-black bg-no-repeat"
+          style={{
+            width: frame.width,
+            height: frame.height,
+            backgroundImage: `url('${frame.url}')`,
+            backgroundPosition: `-${frame.x}px -${frame.y}px`,
+          }}
+        ></div>
+      )}
+      {label && (
+        <span className="mt-1 max-w-[12rem] truncate text-xs font-medium text-white drop-shadow">{label}</span>
+      )}
+      <span className="mt-0.5 rounded bg-black/80 px-1.5 py-0.5 text-xs font-medium text-white">
+        {formatTime(time)}
+      </span>
+    </div>
+  );
+}
@@ -10,33 +10,53 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Share, Copy, Twitter, Facebook } from 'lucide-react';
 import { Video } from '@shared/schema';
+import { formatDuration, getVideoShareUrl } from '@/lib/video-utils';
+import { embedSizes, getEmbedSnippet } from '@/lib/embed';
 
 interface ShareButtonProps {
   video: Video;
+  // Playback position, when shared from the player
+  currentTime?: number;
   size?: 'sm' | 'md' | 'lg';
   className?: string;
 }
 
 export function ShareButton({
   video,
+  currentTime,
   size = 'md',
   className = '',
 }: ShareButtonProps) {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [startAtTime, setStartAtTime] = useState(false);
+  // Position captured when the dialog opened, so the link doesn't keep moving
+  const [sharedTime, setSharedTime] = useState(0);
+  const [embedSize, setEmbedSize] = useState(0);
+  const [embedAutoplay, setEmbedAutoplay] = useState(false);
   
   // Generate video share URL
-  const videoUrl = `${window.location.origin}/watch/${video.id}`;
+  const videoUrl = getVideoShareUrl(video.id, startAtTime ? sharedTime : null);
+  const embedSnippet = getEmbedSnippet(video.id, {
+    ...embedSizes[embedSize],
+    autoplay: embedAutoplay,
+    startTime: startAtTime ? sharedTime : null,
+  });
   
   // Handle copy to clipboard
-  const copyToClipboard = () => {
-    navigator.clipboard.writeText(videoUrl).then(
+  const copyToClipboard = (text: string, what: 'Link' | 'Embed code') => {
+    navigator.clipboard.writeText(text).then(
       () => {
         toast({
-          title: 'Link copied',
-          description: 'Video link copied to clipboard',
+          title: `${what} copied`,
+          description: `${what === 'Link' ? 'Video link' : 'Embed code'} copied to clipboard`,
           duration: 3000,
         });
       },
@@ -44,7 +64,7 @@ export function ShareButton({
         console.error('Failed to copy: ', err);
         toast({
           title: 'Failed to copy',
-          description: 'Could not copy link to clipboard',
+          description: `Could not copy ${what.toLowerCase()} to clipboard`,
           variant: 'destructive',
           duration: 3000,
         });
@@ -76,6 +96,8 @@ export function ShareButton({
         className={`flex items-center gap-1.5 ${sizeClasses[size]} ${className}`}
         onClick={(e) => {
           e.stopPropagation();
+          setSharedTime(Math.floor(currentTime ?? 0));
+          setStartAtTime(false);
           setIsDialogOpen(true);
         }}
       >
@@ -95,43 +117,108 @@ export function ShareButton({
           </DialogHeader>
           
           <div className="py-4 space-y-4">
-            <div className="flex items-center space-x-2">
-              <Input 
-                value={videoUrl} 
-                readOnly 
-                className="bg-slate-800 border-slate-700 text-slate-100"
-              />
-              <Button 
-                variant="outline" 
-                size="icon"
-                onClick={copyToClipboard}
-                className="h-10 border-slate-700 hover:bg-slate-800"
-              >
-                <Copy className="h-4 w-4" />
-              </Button>
-            </div>
+            <Tabs defaultValue="link">
+              <TabsList className="bg-slate-800">
+                <TabsTrigger value="link">Link</TabsTrigger>
+                <TabsTrigger value="embed">Embed</TabsTrigger>
+              </TabsList>
+              
+              <TabsContent value="link" className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Input 
+                    value={videoUrl} 
+                    readOnly 
+                    className="bg-slate-800 border-slate-700 text-slate-100"
+                  />
+                  <Button 
+                    variant="outline" 
+                    size="icon"
+                    onClick={() => copyToClipboard(videoUrl, 'Link')}
+                    className="h-10 border-slate-700 hover:bg-slate-800"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                
+                <div className="flex items-center gap-4 pt-2">
+                  <div className="text-sm font-medium text-slate-400">Share on:</div>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={shareOnTwitter}
+                    className="bg-[#1DA1F2]/10 text-[#1DA1F2] border-[#1DA1F2]/20 hover:bg-[#1DA1F2]/20"
+                  >
+                    <Twitter className="h-4 w-4 mr-2" />
+                    Twitter
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={shareOnFacebook}
+                    className="bg-[#1877F2]/10 text-[#1877F2] border-[#1877F2]/20 hover:bg-[#1877F2]/20"
+                  >
+                    <Facebook className="h-4 w-4 mr-2" />
+                    Facebook
+                  </Button>
+                </div>
+              </TabsContent>
+              
+              <TabsContent value="embed" className="space-y-4">
+                <Textarea
+                  value={embedSnippet}
+                  readOnly
+                  rows={4}
+                  className="bg-slate-800 border-slate-700 text-slate-100 font-mono text-xs"
+                />
+                
+                <div className="flex items-center gap-4">
+                  <Select value={String(embedSize)} onValueChange={(value) => setEmbedSize(parseInt(value))}>
+                    <SelectTrigger className="w-36 bg-slate-800 border-slate-700 text-slate-100">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {embedSizes.map((option, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {option.width} × {option.height}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`embed-autoplay-${video.id}`}
+                      checked={embedAutoplay}
+                      onCheckedChange={(checked) => setEmbedAutoplay(checked === true)}
+                    />
+                    <Label htmlFor={`embed-autoplay-${video.id}`} className="text-slate-300">
+                      Autoplay
+                    </Label>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyToClipboard(embedSnippet, 'Embed code')}
+                    className="ml-auto border-slate-700 hover:bg-slate-800"
+                  >
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy
+                  </Button>
+                </div>
+              </TabsContent>
+            </Tabs>
             
-            <div className="flex items-center gap-4 pt-2">
-              <div className="text-sm font-medium text-slate-400">Share on:</div>
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={shareOnTwitter}
-                className="bg-[#1DA1F2]/10 text-[#1DA1F2] border-[#1DA1F2]/20 hover:bg-[#1DA1F2]/20"
-              >
-                <Twitter className="h-4 w-4 mr-2" />
-                Twitter
-              </Button>
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={shareOnFacebook}
-                className="bg-[#1877F2]/10 text-[#1877F2] border-[#1877F2]/20 hover:bg-[#1877F2]/20"
-              >
-                <Facebook className="h-4 w-4 mr-2" />
-                Facebook
-              </Button>
-            </div>
+            {currentTime !== undefined && sharedTime > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`share-start-${video.id}`}
+                  checked={startAtTime}
+                  onCheckedChange={(checked) => setStartAtTime(checked === true)}
+                />
+                <Label htmlFor={`share-start-${video.id}`} className="text-slate-300">
+                  Start at {formatDuration(sharedTime)}
+                </Label>
+              </div>
+            )}
           </div>
           
           <DialogFooter>
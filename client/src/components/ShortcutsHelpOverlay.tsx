@@ -0,0 +1,55 @@
+import { Button } from '@/components/ui/button';
+import { Keyboard, X } from 'lucide-react';
+import { playerShortcuts } from '@/hooks/use-player-shortcuts';
+
+interface ShortcutsHelpOverlayProps {
+  onClose: () => void;
+}
+
+// Rendered inside the player so it also shows in fullscreen
+export function ShortcutsHelpOverlay({ onClose }: ShortcutsHelpOverlayProps) {
+  return (
+    <div 
+      className="absolute inset-0 z-20 flex items-center justify-center bg-black/70"
+      onClick={onClose}
+    >
+      <div 
+        className="w-full max-w-md rounded-lg border border-slate-700 bg-slate-900/95 p-6 text-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 text-lg font-semibold tracking-wider">
+            <Keyboard className="h-5 w-5" />
+            Keyboard shortcuts
+          </h3>
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            className="h-8 w-8 text-slate-400 hover:text-white hover:bg-slate-800"
+            onClick={onClose}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        
+        <ul className="space-y-2">
+          {playerShortcuts.map(shortcut => (
+            <li key={shortcut.description} className="flex items-center justify-between text-sm">
+              <span className="text-slate-300">{shortcut.description}</span>
+              <span className="flex gap-1">
+                {shortcut.keys.map(key => (
+                  <kbd 
+                    key={key} 
+                    className="min-w-[1.75rem] rounded border border-slate-600 bg-slate-800 px-1.5 py-0.5 text-center text-xs font-medium"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { Camera, FileImage } from 'lucide-react';
+import {
+  CANDIDATE_FRAME_COUNT,
+  CandidateFrame,
+  THUMBNAIL_ASPECT_RATIO,
+  captureVideoFrame,
+  cropImageToThumbnail,
+  extractCandidateFrames,
+} from '@/lib/thumbnails';
+import { cn } from '@/lib/utils';
+
+interface ThumbnailPickerProps {
+  videoFile: File | null;
+  value: File | null;
+  onChange: (file: File | null) => void;
+  invalid?: boolean;
+}
+
+// Object URLs for previewing files, released when the file changes
+function useObjectUrl(file: File | Blob | null): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url;
+}
+
+function FrameOption({ frame, selected, onSelect }: { frame: CandidateFrame; selected: boolean; onSelect: () => void }) {
+  const url = useObjectUrl(frame.file);
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        'overflow-hidden rounded ring-offset-2 ring-offset-card transition',
+        selected ? 'ring-2 ring-primary' : 'opacity-80 hover:opacity-100'
+      )}
+      onClick={onSelect}
+    >
+      <AspectRatio ratio={THUMBNAIL_ASPECT_RATIO}>
+        {url && <img src={url} alt="" className="h-full w-full object-cover" />}
+      </AspectRatio>
+    </button>
+  );
+}
+
+// Choose a thumbnail from frames of the selected video, any scrubbed-to frame,
+// or a custom image; every choice is cropped to 16:9
+export function ThumbnailPicker({ videoFile, value, onChange, invalid = false }: ThumbnailPickerProps) {
+  const { toast } = useToast();
+  const [frames, setFrames] = useState<CandidateFrame[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractFailed, setExtractFailed] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [scrubTime, setScrubTime] = useState(0);
+  const scrubVideoRef = useRef<HTMLVideoElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const videoUrl = useObjectUrl(videoFile);
+  const previewUrl = useObjectUrl(value);
+
+  // A custom image survives switching videos; frames from the old video don't
+  const isCustomRef = useRef(false);
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  if (!value) {
+    isCustomRef.current = false;
+  }
+
+  useEffect(() => {
+    setFrames([]);
+    setExtractFailed(false);
+    setScrubTime(0);
+    setDuration(0);
+    if (!isCustomRef.current && valueRef.current) {
+      onChange(null);
+    }
+    if (!videoFile) return;
+
+    let cancelled = false;
+    setIsExtracting(true);
+
+    extractCandidateFrames(videoFile)
+      .then(extracted => {
+        if (cancelled) return;
+        setFrames(extracted);
+
+        // Start with the first frame so there's always a thumbnail
+        if (!isCustomRef.current && extracted.length > 0) {
+          onChange(extracted[0].file);
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to extract frames:', error);
+        setExtractFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsExtracting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoFile]);
+
+  const selectFrame = (file: File) => {
+    isCustomRef.current = false;
+    onChange(file);
+  };
+
+  const handleScrub = ([time]: number[]) => {
+    setScrubTime(time);
+    if (scrubVideoRef.current) {
+      scrubVideoRef.current.currentTime = time;
+    }
+  };
+
+  const handleUseScrubbedFrame = async () => {
+    if (!scrubVideoRef.current) return;
+
+    try {
+      selectFrame(await captureVideoFrame(scrubVideoRef.current));
+    } catch (error) {
+      toast({
+        title: "Couldn't capture frame",
+        description: error instanceof Error ? error.message : 'Please try another frame.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const cropped = await cropImageToThumbnail(file);
+      isCustomRef.current = true;
+      onChange(cropped);
+    } catch (error) {
+      toast({
+        title: 'Invalid image',
+        description: error instanceof Error ? error.message : 'Could not read that image',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className={cn('space-y-3 rounded border-2 border-dashed p-3', invalid ? 'border-red-500' : 'border-border')}>
+      {previewUrl ? (
+        <AspectRatio ratio={THUMBNAIL_ASPECT_RATIO} className="overflow-hidden rounded bg-black">
+          <img src={previewUrl} alt="Thumbnail preview" className="h-full w-full object-cover" />
+        </AspectRatio>
+      ) : (
+        <div className="py-2 text-center">
+          <FileImage className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
+          <p className="text-sm text-muted-foreground">
+            {videoFile ? 'Pick a frame below or upload an image' : 'Choose a video to pick a frame, or upload an image'}
+          </p>
+        </div>
+      )}
+
+      {isExtracting && (
+        <div className="grid grid-cols-3 gap-2">
+          {Array.from({ length: CANDIDATE_FRAME_COUNT }).map((_, index) => (
+            <AspectRatio key={index} ratio={THUMBNAIL_ASPECT_RATIO}>
+              <Skeleton className="h-full w-full" />
+            </AspectRatio>
+          ))}
+        </div>
+      )}
+
+      {frames.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {frames.map(frame => (
+            <FrameOption
+              key={frame.time}
+              frame={frame}
+              selected={value === frame.file}
+              onSelect={() => selectFrame(frame.file)}
+            />
+          ))}
+        </div>
+      )}
+
+      {extractFailed && (
+        <p className="text-sm text-muted-foreground">
+          Couldn't read frames from this video in your browser. Upload an image instead.
+        </p>
+      )}
+
+      {/* Scrub to any frame; object-cover shows exactly the part that gets kept */}
+      {videoUrl && !extractFailed && (
+        <div className="space-y-2">
+          <AspectRatio ratio={THUMBNAIL_ASPECT_RATIO} className="overflow-hidden rounded bg-black">
+            <video
+              ref={scrubVideoRef}
+              src={videoUrl}
+              muted
+              playsInline
+              preload="auto"
+              className="h-full w-full object-cover"
+              onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+            />
+          </AspectRatio>
+          <div className="flex items-center gap-3">
+            <Slider
+              min={0}
+              max={duration || 1}
+              step={0.1}
+              value={[scrubTime]}
+              onValueChange={handleScrub}
+              disabled={!duration}
+            />
+            <Button type="button" variant="secondary" size="sm" onClick={handleUseScrubbedFrame} disabled={!duration}>
+              <Camera className="mr-1 h-4 w-4" />
+              Use frame
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => imageInputRef.current?.click()}>
+        <FileImage className="mr-1 h-4 w-4" />
+        Upload custom image
+      </Button>
+      <input
+        type="file"
+        ref={imageInputRef}
+        onChange={handleImageChange}
+        accept="image/*"
+        className="hidden"
+      />
+    </div>
+  );
+}
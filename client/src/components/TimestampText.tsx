@@ -0,0 +1,34 @@
+import { usePlayerSeek } from '@/hooks/use-player-seek';
+import { splitTimestamps } from '@/lib/video-utils';
+
+interface TimestampTextProps {
+  text: string;
+}
+
+// Renders text with any m:ss / h:mm:ss tokens as links that seek the player
+export function TimestampText({ text }: TimestampTextProps) {
+  const playerSeek = usePlayerSeek();
+
+  if (!playerSeek) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {splitTimestamps(text).map((segment, index) =>
+        segment.seconds === null ? (
+          segment.text
+        ) : (
+          <button
+            key={index}
+            type="button"
+            className="text-primary hover:underline"
+            onClick={() => playerSeek.seekTo(segment.seconds!)}
+          >
+            {segment.text}
+          </button>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import { Video } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Play, RotateCcw } from 'lucide-react';
+import { getThumbnailUrl } from '@/lib/video-utils';
+
+interface UpNextOverlayProps {
+  video: Video;
+  countdown: number | null; // Seconds left, or null when autoplay is off
+  fromQueue: boolean;
+  onPlay: () => void;
+  onCancel: () => void;
+  onReplay: () => void;
+}
+
+// End screen offering the next video, with an optional autoplay countdown
+export function UpNextOverlay({ video, countdown, fromQueue, onPlay, onCancel, onReplay }: UpNextOverlayProps) {
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/80">
+      <div className="w-full max-w-md px-6 text-white">
+        <p className="text-sm uppercase tracking-wider text-slate-400 mb-2">
+          {fromQueue ? 'Up next from your queue' : 'Up next'}
+          {countdown !== null && <span className="ml-1 text-white">in {countdown}</span>}
+        </p>
+        
+        <button className="relative w-full rounded-md overflow-hidden group" onClick={onPlay}>
+          <img 
+            src={getThumbnailUrl(video)} 
+            alt={video.title} 
+            className="w-full aspect-video object-cover"
+          />
+          <div className="absolute inset-0 flex items-center justify-center bg-black/30 group-hover:bg-black/10 transition-colors">
+            <Play size={40} className="fill-white" />
+          </div>
+        </button>
+        <h4 className="mt-3 text-lg font-bold truncate">{video.title}</h4>
+        
+        <div className="mt-4 flex gap-3">
+          <Button className="bg-white hover:bg-white/90 text-black font-semibold" onClick={onPlay}>
+            <Play size={16} className="mr-1" />
+            Play now
+          </Button>
+          {countdown !== null ? (
+            <Button variant="ghost" className="text-white hover:bg-white/10" onClick={onCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="ghost" className="text-white hover:bg-white/10" onClick={onReplay}>
+              <RotateCcw size={16} className="mr-1" />
+              Replay
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
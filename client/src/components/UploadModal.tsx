@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useAuth } from '@/hooks/use-auth';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -8,46 +8,95 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { UploadModalProps } from '@/types';
 import { videoCategories } from '@shared/schema';
-import { FileImage, Film, Upload, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Film, Upload, AlertCircle, CheckCircle2, FileText, Loader2, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Progress } from '@/components/ui/progress';
+import { captionLanguages, getLanguageLabel, toVttFile } from '@/lib/captions';
+import { parseChapters } from '@/lib/chapters';
+import { generateStoryboard } from '@/lib/storyboard';
+import { ThumbnailPicker } from '@/components/ThumbnailPicker';
+import { MediaProbe, describeMediaProbe, getUnsupportedReason, probeVideoFile } from '@/lib/media-probe';
+import {
+  createSpeedMeter,
+  formatFileSize,
+  formatTimeRemaining,
+  forgetStoredUpload,
+  hasStoredUpload,
+  isUploadCancelled,
+  uploadFileResumable,
+} from '@/lib/uploads';
+import { useUploadConfig } from '@/hooks/use-movies';
 
 const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { data: uploadConfig } = useUploadConfig();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
   const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
   const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [mediaProbe, setMediaProbe] = useState<MediaProbe | null>(null);
+  const [isProbing, setIsProbing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
-  const [thumbnailPreview, setThumbnailPreview] = useState<string | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState({ uploaded: 0, total: 0, bytesPerSecond: 0 });
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
-  const [uploadStep, setUploadStep] = useState<'form' | 'uploading' | 'success' | 'error'>('form');
+  const [uploadStep, setUploadStep] = useState<'form' | 'uploading' | 'processing' | 'success' | 'error'>('form');
+  const [captionFiles, setCaptionFiles] = useState<{ language: string; file: File }[]>([]);
+  const [captionLanguage, setCaptionLanguage] = useState('');
+  const [chaptersText, setChaptersText] = useState('');
   
-  const thumbnailInputRef = useRef<HTMLInputElement>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
+  const captionInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const probedFileRef = useRef<File | null>(null);
   
-  // Handle thumbnail selection
-  const handleThumbnailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Don't leave an upload running after the modal goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+  
+  // Handle video selection, reading its details to catch unsupported formats early
+  const handleVideoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      setThumbnailFile(file);
+      setVideoFile(file);
+      setMediaProbe(null);
+      setIsProbing(true);
+      probedFileRef.current = file;
+      
+      const probe = await probeVideoFile(file);
+      
+      // Another file may have been picked in the meantime
+      if (probedFileRef.current !== file) return;
+      setMediaProbe(probe);
+      setIsProbing(false);
       
-      // Create a preview
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setThumbnailPreview(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
+      const unsupportedReason = getUnsupportedReason(probe);
+      setValidationErrors(prev => {
+        const { video, ...rest } = prev;
+        return unsupportedReason ? { ...rest, video: unsupportedReason } : rest;
+      });
     }
   };
   
-  // Handle video selection
-  const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setVideoFile(e.target.files[0]);
+  // Handle subtitle selection, converting SRT to WebVTT up front
+  const handleCaptionChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !captionLanguage) return;
+    
+    try {
+      const vttFile = await toVttFile(file);
+      setCaptionFiles(prev => [
+        ...prev.filter(caption => caption.language !== captionLanguage),
+        { language: captionLanguage, file: vttFile }
+      ]);
+      setCaptionLanguage('');
+    } catch (error) {
+      toast({
+        title: "Invalid subtitle file",
+        description: error instanceof Error ? error.message : "Could not read subtitle file",
+        variant: "destructive"
+      });
     }
   };
   
@@ -69,36 +118,28 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
       errors.category = "Please select a category";
     }
     
+    if (chaptersText.trim() && parseChapters(chaptersText).length === 0) {
+      errors.chapters = "Chapters need at least two lines in order, starting at 0:00";
+    }
+    
     if (!thumbnailFile) {
       errors.thumbnail = "Thumbnail image is required";
     }
     
     if (!videoFile) {
       errors.video = "Video file is required";
-    } else if (videoFile.size > 50 * 1024 * 1024) { // 50MB limit
-      errors.video = "Video file size must be less than 50MB";
+    } else if (uploadConfig && videoFile.size > uploadConfig.maxFileSize) {
+      errors.video = `Video file size must be less than ${formatFileSize(uploadConfig.maxFileSize)}`;
+    } else if (isProbing) {
+      errors.video = "Still checking the video file, try again in a moment";
+    } else if (mediaProbe && getUnsupportedReason(mediaProbe)) {
+      errors.video = getUnsupportedReason(mediaProbe) as string;
     }
     
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
   };
 
-  // Simulate upload progress for better UX
-  const simulateProgress = () => {
-    setUploadProgress(0);
-    const interval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 95) {
-          clearInterval(interval);
-          return 95;
-        }
-        return prev + 5;
-      });
-    }, 500);
-    
-    return () => clearInterval(interval);
-  };
-
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -124,23 +165,66 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
     
     setIsUploading(true);
     setUploadStep('uploading');
-    const stopProgress = simulateProgress();
+    setUploadProgress({ uploaded: 0, total: (videoFile as File).size, bytesPerSecond: 0 });
+    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const measureSpeed = createSpeedMeter();
+    
+    // Seek-bar previews are built from the local file while it uploads. They're
+    // optional, so a file the browser can't read frames from goes up without them
+    const storyboardPromise = generateStoryboard(videoFile as File).catch(error => {
+      console.error('Failed to generate storyboard:', error);
+      return null;
+    });
     
     try {
+      // The video goes up first, in chunks that survive dropped connections
+      const videoUploadId = await uploadFileResumable(videoFile as File, {
+        userId: user.id,
+        chunkSize: uploadConfig?.chunkSize,
+        signal: abortController.signal,
+        onProgress: (uploaded, total) => {
+          setUploadProgress({ uploaded, total, bytesPerSecond: measureSpeed(uploaded) });
+        },
+      });
+      abortControllerRef.current = null;
+      
+      // All bytes are in; the server still has to create the video from them
+      setUploadStep('processing');
+      
       const formData = new FormData();
       formData.append('title', title);
       formData.append('description', description);
       formData.append('category', category);
       formData.append('userId', user.id.toString());
       formData.append('thumbnail', thumbnailFile as File);
-      formData.append('video', videoFile as File);
+      formData.append('videoUploadId', videoUploadId);
+      if (mediaProbe?.duration) {
+        formData.append('duration', mediaProbe.duration.toString());
+      }
+      if (mediaProbe?.width && mediaProbe.height) {
+        formData.append('width', mediaProbe.width.toString());
+        formData.append('height', mediaProbe.height.toString());
+      }
       formData.append('featured', 'false');
+      if (chaptersText.trim()) {
+        formData.append('chapters', JSON.stringify(parseChapters(chaptersText)));
+      }
+      captionFiles.forEach(caption => {
+        formData.append('captions', caption.file);
+        formData.append('captionLanguages', caption.language);
+      });
+      const storyboard = await storyboardPromise;
+      if (storyboard) {
+        formData.append('storyboardIndex', storyboard.index);
+        storyboard.sprites.forEach(sprite => formData.append('storyboardSprites', sprite));
+      }
       
       // Pass the formData to the onUpload function
       await onUpload(formData);
+      forgetStoredUpload(videoFile as File, user.id);
       
-      // Complete progress
-      setUploadProgress(100);
       setUploadStep('success');
       
       // Reset form after a short delay to show success
@@ -149,15 +233,26 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
         setDescription('');
         setCategory('');
         setThumbnailFile(null);
-        setThumbnailPreview(null);
         setVideoFile(null);
-        setUploadProgress(0);
+        setMediaProbe(null);
+        setCaptionFiles([]);
+        setChaptersText('');
+        setUploadProgress({ uploaded: 0, total: 0, bytesPerSecond: 0 });
         setUploadStep('form');
         
         onClose();
       }, 1500);
       
     } catch (error) {
+      if (isUploadCancelled(error)) {
+        setUploadStep('form');
+        toast({
+          title: "Upload cancelled",
+          description: "Upload the same file again to pick up where it stopped.",
+        });
+        return;
+      }
+      
       console.error('Upload error:', error);
       setUploadStep('error');
       toast({
@@ -166,11 +261,15 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
         variant: "destructive"
       });
     } finally {
-      stopProgress();
+      abortControllerRef.current = null;
       setIsUploading(false);
     }
   };
   
+  const handleCancelUpload = () => {
+    abortControllerRef.current?.abort();
+  };
+  
   // Helper to display field error message
   const FieldError = ({ field }: { field: string }) => {
     if (!validationErrors[field]) return null;
@@ -186,14 +285,37 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
   // Show different content based on upload step
   const renderContent = () => {
     switch (uploadStep) {
-      case 'uploading':
+      case 'uploading': {
+        const { uploaded, total, bytesPerSecond } = uploadProgress;
+        const percent = total > 0 ? Math.floor((uploaded / total) * 100) : 0;
+        
         return (
           <div className="py-8 text-center">
             <Upload className="h-16 w-16 mx-auto text-primary animate-spin mb-4" />
             <h3 className="text-xl font-semibold mb-2">Uploading Video</h3>
             <p className="text-muted-foreground mb-4">Please wait while your video is being uploaded...</p>
-            <Progress value={uploadProgress} className="w-full h-2 mb-2" />
-            <p className="text-sm text-muted-foreground">{uploadProgress}% Complete</p>
+            <Progress value={percent} className="w-full h-2 mb-2" />
+            <p className="text-sm text-muted-foreground">
+              {percent}% · {formatFileSize(uploaded)} of {formatFileSize(total)}
+            </p>
+            <p className="text-sm text-muted-foreground mb-4">
+              {bytesPerSecond > 0
+                ? `${formatFileSize(bytesPerSecond)}/s · ${formatTimeRemaining((total - uploaded) / bytesPerSecond)}`
+                : 'Working out time remaining...'}
+            </p>
+            <Button variant="outline" onClick={handleCancelUpload}>
+              Cancel Upload
+            </Button>
+          </div>
+        );
+      }
+      
+      case 'processing':
+        return (
+          <div className="py-8 text-center">
+            <Loader2 className="h-16 w-16 mx-auto text-primary animate-spin mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Processing Video</h3>
+            <p className="text-muted-foreground">Your file is uploaded. We're setting up your video now...</p>
           </div>
         );
       
@@ -202,7 +324,9 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
           <div className="py-8 text-center">
             <CheckCircle2 className="h-16 w-16 mx-auto text-green-500 mb-4" />
             <h3 className="text-xl font-semibold mb-2">Upload Complete!</h3>
-            <p className="text-muted-foreground">Your video has been successfully uploaded to GorillaFlix.</p>
+            <p className="text-muted-foreground">
+              Your video has been uploaded to GorillaFlix. It goes live once we've finished converting it.
+            </p>
           </div>
         );
         
@@ -211,7 +335,9 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
           <div className="py-8 text-center">
             <AlertCircle className="h-16 w-16 mx-auto text-red-500 mb-4" />
             <h3 className="text-xl font-semibold mb-2">Upload Failed</h3>
-            <p className="text-muted-foreground mb-4">There was an error uploading your video.</p>
+            <p className="text-muted-foreground mb-4">
+              There was an error uploading your video. Trying again picks up where it stopped.
+            </p>
             <Button 
               onClick={() => setUploadStep('form')}
               className="bg-primary hover:bg-primary/90 text-white"
@@ -255,51 +381,6 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
               <FieldError field="description" />
             </div>
             
-            <div className="space-y-1">
-              <Label htmlFor="thumbnail" className="flex items-center justify-between">
-                Thumbnail
-                {validationErrors.thumbnail && <span className="text-red-500 text-xs font-normal">Required</span>}
-              </Label>
-              <div 
-                className={`border-2 border-dashed rounded p-4 text-center cursor-pointer ${
-                  validationErrors.thumbnail ? 'border-red-500' : 'border-border'
-                }`}
-                onClick={() => thumbnailInputRef.current?.click()}
-              >
-                {thumbnailPreview ? (
-                  <div className="relative">
-                    <img 
-                      src={thumbnailPreview} 
-                      alt="Thumbnail preview" 
-                      className="mx-auto max-h-40 object-contain"
-                    />
-                    <p className="mt-2 text-sm text-muted-foreground">Click to change thumbnail</p>
-                  </div>
-                ) : (
-                  <>
-                    <FileImage className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
-                    <p className="text-muted-foreground">Drop thumbnail or browse</p>
-                    <Button 
-                      type="button" 
-                      variant="secondary" 
-                      size="sm" 
-                      className="mt-2"
-                    >
-                      Browse
-                    </Button>
-                  </>
-                )}
-                <input
-                  type="file"
-                  ref={thumbnailInputRef}
-                  onChange={handleThumbnailChange}
-                  accept="image/*"
-                  className="hidden"
-                />
-              </div>
-              <FieldError field="thumbnail" />
-            </div>
-            
             <div className="space-y-1">
               <Label htmlFor="video" className="flex items-center justify-between">
                 Video File
@@ -316,14 +397,25 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
                     <Film className="h-8 w-8 mx-auto text-primary mb-2" />
                     <p className="text-foreground font-medium">{videoFile.name}</p>
                     <p className="mt-1 text-sm text-muted-foreground">
-                      {(videoFile.size / (1024 * 1024)).toFixed(2)} MB
+                      {formatFileSize(videoFile.size)}
                     </p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {isProbing
+                        ? 'Checking video...'
+                        : mediaProbe && describeMediaProbe(mediaProbe)}
+                    </p>
+                    {user && hasStoredUpload(videoFile, user.id) && (
+                      <p className="mt-1 text-sm text-primary">Continues your earlier upload of this file</p>
+                    )}
                     <p className="mt-2 text-sm text-muted-foreground">Click to change video</p>
                   </div>
                 ) : (
                   <>
                     <Film className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
                     <p className="text-muted-foreground">Drop video file or browse</p>
+                    {uploadConfig && (
+                      <p className="text-xs text-muted-foreground">Up to {formatFileSize(uploadConfig.maxFileSize)}</p>
+                    )}
                     <Button 
                       type="button" 
                       variant="secondary" 
@@ -345,6 +437,20 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
               <FieldError field="video" />
             </div>
             
+            <div className="space-y-1">
+              <Label className="flex items-center justify-between">
+                Thumbnail
+                {validationErrors.thumbnail && <span className="text-red-500 text-xs font-normal">Required</span>}
+              </Label>
+              <ThumbnailPicker
+                videoFile={videoFile}
+                value={thumbnailFile}
+                onChange={setThumbnailFile}
+                invalid={!!validationErrors.thumbnail}
+              />
+              <FieldError field="thumbnail" />
+            </div>
+            
             <div className="space-y-1">
               <Label htmlFor="category" className="flex items-center justify-between">
                 Category
@@ -368,6 +474,69 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
               <FieldError field="category" />
             </div>
             
+            <div className="space-y-1">
+              <Label htmlFor="chapters">Chapters (optional)</Label>
+              <Textarea
+                id="chapters"
+                value={chaptersText}
+                onChange={(e) => setChaptersText(e.target.value)}
+                placeholder={"0:00 Intro\n1:15 Branch climbing\n4:30 Outro"}
+                className={`bg-background ${validationErrors.chapters ? 'border-red-500' : 'border-border'}`}
+                rows={3}
+              />
+              <FieldError field="chapters" />
+            </div>
+            
+            <div className="space-y-1">
+              <Label>Subtitles (optional)</Label>
+              {captionFiles.map(caption => (
+                <div key={caption.language} className="flex items-center justify-between rounded bg-background px-3 py-1.5 text-sm">
+                  <span className="flex items-center">
+                    <FileText className="h-4 w-4 mr-2 text-muted-foreground" />
+                    {getLanguageLabel(caption.language)}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => setCaptionFiles(prev => prev.filter(c => c.language !== caption.language))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Select value={captionLanguage} onValueChange={setCaptionLanguage}>
+                  <SelectTrigger className="bg-background border-border">
+                    <SelectValue placeholder="Subtitle language" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {captionLanguages.map((language) => (
+                      <SelectItem key={language.code} value={language.code}>
+                        {language.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  disabled={!captionLanguage}
+                  onClick={() => captionInputRef.current?.click()}
+                >
+                  Add .srt/.vtt
+                </Button>
+                <input
+                  type="file"
+                  ref={captionInputRef}
+                  onChange={handleCaptionChange}
+                  accept=".srt,.vtt,text/vtt"
+                  className="hidden"
+                />
+              </div>
+            </div>
+            
             <DialogFooter>
               <Button
                 type="button"
@@ -399,11 +568,12 @@ const UploadModal = ({ isOpen, onClose, onUpload }: UploadModalProps) => {
   
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !isUploading && onClose()}>
-      <DialogContent className="bg-card text-card-foreground max-w-md">
+      <DialogContent className="bg-card text-card-foreground max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-xl font-bold">
             {uploadStep === 'form' ? 'Upload Your Gorilla Tag Movie' : 
              uploadStep === 'uploading' ? 'Uploading Video' :
+             uploadStep === 'processing' ? 'Processing Video' :
              uploadStep === 'success' ? 'Upload Complete' : 'Upload Failed'}
           </DialogTitle>
           {uploadStep === 'form' && (
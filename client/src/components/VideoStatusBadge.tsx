@@ -0,0 +1,34 @@
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { VideoProcessingInfo } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface VideoStatusBadgeProps {
+  video: VideoProcessingInfo;
+  className?: string;
+}
+
+// Shown to uploaders on videos that aren't public yet; ready videos get no badge
+export function VideoStatusBadge({ video, className = '' }: VideoStatusBadgeProps) {
+  if (video.status === 'processing') {
+    return (
+      <span className={cn('inline-flex items-center gap-1 rounded-sm bg-amber-500/90 px-1.5 py-0.5 text-[10px] font-medium text-black', className)}>
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Processing
+      </span>
+    );
+  }
+
+  if (video.status === 'failed') {
+    return (
+      <span
+        className={cn('inline-flex items-center gap-1 rounded-sm bg-red-600/90 px-1.5 py-0.5 text-[10px] font-medium text-white', className)}
+        title={video.failureReason || undefined}
+      >
+        <AlertCircle className="h-3 w-3" />
+        Failed
+      </span>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,76 @@
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useCreateWatchParty } from '@/hooks/use-watch-party';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Users } from 'lucide-react';
+import { getWatchPartyUrl } from '@/lib/watch-party';
+
+interface WatchPartyButtonProps {
+  videoId: number;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+export function WatchPartyButton({
+  videoId,
+  size = 'md',
+  className = '',
+}: WatchPartyButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const createWatchPartyMutation = useCreateWatchParty();
+
+  const handleStart = () => {
+    if (!user) {
+      toast({
+        title: 'Not logged in',
+        description: 'Please log in to start a watch party',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    createWatchPartyMutation.mutate({ videoId }, {
+      onSuccess: (party) => {
+        const partyUrl = getWatchPartyUrl(videoId, party.id);
+        navigator.clipboard.writeText(`${window.location.origin}${partyUrl}`).catch(() => {});
+        toast({
+          title: 'Watch party started',
+          description: 'Invite link copied to clipboard. Everyone follows your playback.',
+        });
+        navigate(partyUrl);
+      },
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'Failed to start watch party',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const sizeClasses = {
+    sm: 'px-3 py-1 text-xs',
+    md: 'px-4 py-2 text-sm',
+    lg: 'px-5 py-2.5 text-base',
+  };
+
+  return (
+    <Button
+      variant="outline"
+      className={`flex items-center gap-1.5 ${sizeClasses[size]} ${className}`}
+      onClick={handleStart}
+      disabled={createWatchPartyMutation.isPending}
+    >
+      {createWatchPartyMutation.isPending ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <Users className="h-4 w-4" />
+      )}
+      {size !== 'sm' && <span>Watch party</span>}
+    </Button>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Crown, LogOut, Send } from 'lucide-react';
+import { WatchParty, WatchPartyChatMessage } from '@/types';
+import { WatchPartyStatus } from '@/hooks/use-watch-party';
+import { WATCH_PARTY_CHAT_MAX_LENGTH } from '@/lib/watch-party';
+import { cn } from '@/lib/utils';
+
+interface WatchPartyPanelProps {
+  party: WatchParty | null;
+  messages: WatchPartyChatMessage[];
+  status: WatchPartyStatus;
+  isHost: boolean;
+  currentUserId: number;
+  inviteUrl: string;
+  onSendChat: (content: string) => void;
+  onTransferHost: (userId: number) => void;
+  onLeave: () => void;
+}
+
+const statusLabels: Record<WatchPartyStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Live',
+  reconnecting: 'Reconnecting…',
+  ended: 'Ended',
+};
+
+export function WatchPartyPanel({
+  party,
+  messages,
+  status,
+  isHost,
+  currentUserId,
+  inviteUrl,
+  onSendChat,
+  onTransferHost,
+  onLeave,
+}: WatchPartyPanelProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState('');
+  const chatRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (chatRef.current) {
+      chatRef.current.scrollTop = chatRef.current.scrollHeight;
+    }
+  }, [messages.length]);
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    onSendChat(draft.trim());
+    setDraft('');
+  };
+
+  const copyInvite = () => {
+    navigator.clipboard.writeText(inviteUrl).then(
+      () => {
+        toast({
+          title: 'Link copied',
+          description: 'Watch party invite copied to clipboard',
+          duration: 3000,
+        });
+      },
+      () => {
+        toast({
+          title: 'Failed to copy',
+          description: 'Could not copy link to clipboard',
+          variant: 'destructive',
+          duration: 3000,
+        });
+      }
+    );
+  };
+
+  const participants = party?.participants ?? [];
+
+  return (
+    <aside className="rounded-lg border border-slate-800 bg-slate-900/60 overflow-hidden flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <div>
+          <div className="font-semibold text-slate-100">Watch party</div>
+          <span className="flex items-center gap-1.5 text-xs text-slate-400">
+            <span
+              className={cn(
+                'inline-block h-2 w-2 rounded-full',
+                status === 'connected' ? 'bg-green-500' : status === 'ended' ? 'bg-slate-500' : 'bg-yellow-500'
+              )}
+            />
+            {statusLabels[status]}
+            {isHost && ' · You are the host'}
+          </span>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-slate-400 hover:bg-slate-800"
+            onClick={copyInvite}
+            title="Copy invite link"
+          >
+            <Copy size={16} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-slate-400 hover:text-red-400 hover:bg-slate-800"
+            onClick={onLeave}
+            title="Leave watch party"
+          >
+            <LogOut size={16} />
+          </Button>
+        </div>
+      </div>
+
+      <ul className="p-2 border-b border-slate-800 max-h-40 overflow-y-auto">
+        {participants.map(participant => (
+          <li key={participant.userId} className="flex items-center gap-2 rounded px-2 py-1.5">
+            <Avatar className="h-6 w-6">
+              <AvatarImage src={participant.avatar || undefined} />
+              <AvatarFallback>{participant.username.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <span className="flex-1 truncate text-sm text-slate-200">
+              {participant.username}
+              {participant.userId === currentUserId && <span className="text-slate-500"> (you)</span>}
+            </span>
+            {party?.hostId === participant.userId ? (
+              <Crown size={14} className="text-yellow-400" />
+            ) : isHost && (
+              <button
+                className="text-xs text-slate-400 hover:text-white"
+                onClick={() => onTransferHost(participant.userId)}
+              >
+                Make host
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div ref={chatRef} className="h-64 overflow-y-auto p-3 space-y-2">
+        {messages.length === 0 ? (
+          <p className="text-center text-sm text-slate-500 pt-8">Say hi to the party</p>
+        ) : (
+          messages.map(message => (
+            <div key={message.id} className="text-sm leading-snug">
+              <span className="font-medium text-slate-100">{message.username}</span>{' '}
+              <span className="text-slate-300 break-words">{message.content}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSend} className="flex items-center gap-2 p-2 border-t border-slate-800">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={WATCH_PARTY_CHAT_MAX_LENGTH}
+          placeholder="Chat with the party"
+          className="h-9 bg-slate-800 border-slate-700 text-slate-100"
+          disabled={status !== 'connected'}
+        />
+        <Button
+          type="submit"
+          size="icon"
+          className="h-9 w-9 bg-primary hover:bg-primary/90 text-white"
+          disabled={!draft.trim() || status !== 'connected'}
+        >
+          <Send size={16} />
+        </Button>
+      </form>
+    </aside>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CaptionTrack } from "@/types";
+
+// Get subtitle tracks for a video
+export function useVideoCaptions(videoId: number | null) {
+  return useQuery<CaptionTrack[]>({
+    queryKey: ["/api/videos", videoId, "captions"],
+    queryFn: async () => {
+      if (!videoId) return [];
+      const res = await fetch(`/api/videos/${videoId}/captions`);
+      if (!res.ok) throw new Error("Failed to fetch captions");
+      return res.json();
+    },
+    enabled: !!videoId,
+  });
+}
+
+// Attach a WebVTT subtitle track to a video
+export function useAddCaption() {
+  return useMutation({
+    mutationFn: async ({ videoId, language, label, file }: { videoId: number; language: string; label: string; file: File }) => {
+      const formData = new FormData();
+      formData.append("language", language);
+      formData.append("label", label);
+      formData.append("file", file);
+      const res = await apiRequest("POST", `/api/videos/${videoId}/captions`, formData);
+      return res.json();
+    },
+    onSuccess: (track: CaptionTrack) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/videos", track.videoId, "captions"] });
+    },
+  });
+}
+
+// Remove a subtitle track
+export function useDeleteCaption() {
+  return useMutation({
+    mutationFn: async ({ videoId, captionId }: { videoId: number; captionId: number }) => {
+      const res = await apiRequest("DELETE", `/api/videos/${videoId}/captions/${captionId}`);
+      return res.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/videos", variables.videoId, "captions"] });
+    },
+  });
+}
+
+// Follow the active cue of the chosen <track> so the player can draw its own overlay
+export function useActiveCaption(
+  videoElement: HTMLVideoElement | null,
+  tracks: CaptionTrack[],
+  language: string | null
+) {
+  const [cueText, setCueText] = useState('');
+  
+  // Re-bind only when the set of tracks actually changes
+  const trackKey = tracks.map(track => track.id).join(',');
+  
+  // The element is a dependency too: it mounts only after the video has loaded
+  useEffect(() => {
+    setCueText('');
+    if (!videoElement) return;
+    
+    // "hidden" keeps cues firing without the browser's own rendering
+    const textTracks = Array.from(videoElement.textTracks);
+    textTracks.forEach(textTrack => {
+      textTrack.mode = textTrack.language === language ? 'hidden' : 'disabled';
+    });
+    
+    const activeTrack = textTracks.find(textTrack => textTrack.language === language);
+    if (!activeTrack) return;
+    
+    const handleCueChange = () => {
+      const cues = Array.from(activeTrack.activeCues || []) as VTTCue[];
+      // Strip inline WebVTT markup such as <i> and <v Speaker>
+      setCueText(cues.map(cue => cue.text.replace(/<[^>]+>/g, '')).join('\n'));
+    };
+    
+    activeTrack.addEventListener('cuechange', handleCueChange);
+    handleCueChange();
+    
+    return () => {
+      activeTrack.removeEventListener('cuechange', handleCueChange);
+    };
+  }, [videoElement, trackKey, language]);
+  
+  return cueText;
+}
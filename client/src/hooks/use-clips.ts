@@ -0,0 +1,63 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Clip, ClipWithVideo } from "@/types";
+import { isVideoReady } from "@/lib/video-utils";
+
+// Get a clip with its source video
+export function useClip(id: number | null) {
+  return useQuery<ClipWithVideo>({
+    queryKey: ["/api/clips", id],
+    queryFn: async ({ queryKey }) => {
+      const [base, id] = queryKey;
+      if (!id) throw new Error("Clip ID is required");
+      const res = await fetch(`${base}/${id}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch clip");
+      return res.json();
+    },
+    enabled: !!id,
+  });
+}
+
+// Get the clips a user has published
+export function useUserClips(userId: number | null) {
+  return useQuery<ClipWithVideo[]>({
+    queryKey: ["/api/users", userId, "clips"],
+    queryFn: async ({ queryKey }) => {
+      const [base, userId] = queryKey;
+      if (!userId) throw new Error("User ID is required");
+      const res = await fetch(`${base}/${userId}/clips`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch clips");
+      return res.json();
+    },
+    // A clip can't play while its source video is being reprocessed
+    select: (clips) => clips.filter(clip => isVideoReady(clip.video)),
+    enabled: !!userId,
+  });
+}
+
+// Publish a range of a video as a clip
+export function useCreateClip() {
+  return useMutation({
+    mutationFn: async (data: { videoId: number; title: string; start: number; end: number }) => {
+      const res = await apiRequest("POST", "/api/clips", data);
+      return res.json();
+    },
+    onSuccess: (clip: Clip) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", clip.userId, "clips"] });
+    },
+  });
+}
+
+// Delete one of your clips
+export function useDeleteClip() {
+  return useMutation({
+    mutationFn: async (clip: Clip) => {
+      const res = await apiRequest("DELETE", `/api/clips/${clip.id}`);
+      return res.json();
+    },
+    onSuccess: (_data, clip) => {
+      queryClient.removeQueries({ queryKey: ["/api/clips", clip.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", clip.userId, "clips"] });
+    },
+  });
+}
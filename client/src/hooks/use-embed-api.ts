@@ -0,0 +1,98 @@
+import { useEffect, useRef } from "react";
+import { EMBED_EVENT_TYPE, EmbedEventName, EmbedPlayerState, isEmbedCommand } from "@/lib/embed";
+import { PlayerPreferences } from "@/types";
+
+// Commands that change player state go through the player, so its controls
+// stay in step with the embedding page. The player keeps volume and mute out
+// of the viewer's saved preferences
+interface EmbedApiHandlers {
+  seekTo: (seconds: number) => void;
+  changePreferences: (changes: Partial<Pick<PlayerPreferences, "volume" | "muted">>) => void;
+}
+
+// Bridge between an embedded player and the page that frames it. See
+// lib/embed.ts for the message format
+export function useEmbedApi(
+  videoElement: HTMLVideoElement | null,
+  videoId: number | null,
+  handlers: EmbedApiHandlers,
+  enabled: boolean
+) {
+  // Latest handlers without re-subscribing on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  
+  useEffect(() => {
+    // Nothing to talk to unless we're actually inside a frame
+    if (!enabled || !videoElement || !videoId || window.parent === window) return;
+    
+    const getState = (): EmbedPlayerState => ({
+      videoId,
+      currentTime: videoElement.currentTime,
+      duration: videoElement.duration || 0,
+      paused: videoElement.paused,
+      ended: videoElement.ended,
+      muted: videoElement.muted,
+      volume: videoElement.volume,
+    });
+    
+    // The embedding origin isn't known up front, and the state isn't private
+    const post = (event: EmbedEventName) => {
+      window.parent.postMessage({ type: EMBED_EVENT_TYPE, event, state: getState() }, "*");
+    };
+    
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || !isEmbedCommand(e.data)) return;
+      
+      const command = e.data;
+      switch (command.command) {
+        case "play":
+          videoElement.play().catch(err => {
+            console.error("Failed to play:", err);
+          });
+          break;
+        case "pause":
+          videoElement.pause();
+          break;
+        case "seek":
+          if (Number.isFinite(command.value)) {
+            handlersRef.current.seekTo(Math.max(0, command.value));
+          }
+          break;
+        case "setVolume":
+          if (Number.isFinite(command.value)) {
+            const volume = Math.max(0, Math.min(command.value, 1));
+            handlersRef.current.changePreferences({ volume, muted: volume === 0 });
+          }
+          break;
+        case "mute":
+          handlersRef.current.changePreferences({ muted: true });
+          break;
+        case "unmute":
+          handlersRef.current.changePreferences({ muted: false });
+          break;
+        case "getState":
+          post("state");
+          break;
+      }
+    };
+    
+    const forwarded: EmbedEventName[] = ["play", "pause", "seeked", "timeupdate", "volumechange", "ended"];
+    const listeners = forwarded.map(event => [event, () => post(event)] as const);
+    const handleReady = () => post("ready");
+    
+    window.addEventListener("message", handleMessage);
+    listeners.forEach(([event, listener]) => videoElement.addEventListener(event, listener));
+    videoElement.addEventListener("loadedmetadata", handleReady);
+    
+    if (videoElement.readyState >= 1) {
+      handleReady();
+    }
+    
+    return () => {
+      window.removeEventListener("message", handleMessage);
+      listeners.forEach(([event, listener]) => videoElement.removeEventListener(event, listener));
+      videoElement.removeEventListener("loadedmetadata", handleReady);
+    };
+  }, [videoElement, videoId, enabled]);
+}
@@ -0,0 +1,284 @@
+import { useState, useEffect, useRef } from 'react';
+import Hls from 'hls.js';
+import { getHlsManifestUrl, getVideoUrl } from '@/lib/video-utils';
+import {
+  MAX_PLAYBACK_RETRIES,
+  PlaybackErrorKind,
+  PlaybackFailure,
+  classifyMediaError,
+  getRetryDelay,
+} from '@/lib/playback-errors';
+import { QualityLevel, StreamType, VideoDetails } from '@/types';
+
+// Level index hls.js uses for automatic bitrate switching
+export const AUTO_QUALITY = -1;
+
+// Attach a video to the player element, preferring adaptive HLS and
+// falling back to the progressive file when no manifest exists.
+// Failures are retried with backoff, then fall back to a lower rendition
+// or the progressive file, and only then surface as `failure`
+export function useHlsPlayer(
+  videoElement: HTMLVideoElement | null,
+  video: VideoDetails | null | undefined
+) {
+  const hlsRef = useRef<Hls | null>(null);
+  const [streamType, setStreamType] = useState<StreamType>('progressive');
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  const [selectedLevel, setSelectedLevel] = useState(AUTO_QUALITY);
+  const [activeLevel, setActiveLevel] = useState(AUTO_QUALITY);
+  const [failure, setFailure] = useState<PlaybackFailure | null>(null);
+  const [isRecovering, setIsRecovering] = useState(false);
+  
+  // Bumped by retry() to start over from the preferred source, at the
+  // position playback had reached
+  const [attemptKey, setAttemptKey] = useState(0);
+  const retryPositionRef = useRef<number | null>(null);
+  
+  // Keyed on the sources rather than the video object, which is refetched
+  // (with a new identity) whenever the video is liked or commented on
+  const videoId = video?.id ?? null;
+  const manifestUrl = video ? getHlsManifestUrl(video) : null;
+  const progressiveUrl = video ? getVideoUrl(video) : null;
+  
+  useEffect(() => {
+    if (videoId === null || !progressiveUrl || !videoElement) return;
+    
+    setLevels([]);
+    setSelectedLevel(AUTO_QUALITY);
+    setActiveLevel(AUTO_QUALITY);
+    setFailure(null);
+    setIsRecovering(false);
+    
+    let hls: Hls | null = null;
+    let current: StreamType = 'progressive';
+    let attempts = 0;
+    let mediaRecoveries = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+    
+    // Only the latest reload's resume is kept, and cleanup drops it
+    let resumeListener: (() => void) | null = null;
+    const resumeAfterLoad = (position: number, play: boolean) => {
+      if (resumeListener) {
+        videoElement.removeEventListener('loadedmetadata', resumeListener);
+      }
+      resumeListener = () => {
+        resumeListener = null;
+        if (position > 0) {
+          videoElement.currentTime = position;
+        }
+        if (play) {
+          videoElement.play().catch(err => {
+            console.error('Failed to resume after reload:', err);
+          });
+        }
+      };
+      videoElement.addEventListener('loadedmetadata', resumeListener, { once: true });
+    };
+    
+    const retryPosition = retryPositionRef.current;
+    retryPositionRef.current = null;
+    if (retryPosition !== null) {
+      resumeAfterLoad(retryPosition, true);
+    }
+    
+    // Swap the element's source mid-playback, keeping position and play state
+    const reloadSource = (src: string) => {
+      resumeAfterLoad(videoElement.currentTime, !videoElement.paused);
+      videoElement.src = src;
+    };
+    
+    const switchToProgressive = () => {
+      hls?.destroy();
+      hls = null;
+      hlsRef.current = null;
+      current = 'progressive';
+      attempts = 0;
+      setStreamType('progressive');
+      setLevels([]);
+      reloadSource(progressiveUrl);
+    };
+    
+    // Run `action` after a backoff delay; false once the retries are used up
+    const retryLater = (action: () => void) => {
+      if (attempts >= MAX_PLAYBACK_RETRIES) return false;
+      
+      setIsRecovering(true);
+      retryTimer = setTimeout(() => {
+        if (!cancelled) action();
+      }, getRetryDelay(attempts));
+      attempts += 1;
+      return true;
+    };
+    
+    const fail = (kind: PlaybackErrorKind, message: string, code: number | null) => {
+      setIsRecovering(false);
+      setFailure({ kind, message, code });
+    };
+    
+    // Step down below the rendition that failed, e.g. when the device
+    // can't decode the top one. hls.js orders levels lowest bitrate first
+    const dropRendition = () => {
+      if (!hls) return false;
+      
+      const failedLevel = hls.currentLevel >= 0 ? hls.currentLevel : hls.loadLevel;
+      if (failedLevel <= 0) return false;
+      
+      hls.autoLevelCapping = failedLevel - 1;
+      hls.loadLevel = failedLevel - 1;
+      setSelectedLevel(level => (level === AUTO_QUALITY ? AUTO_QUALITY : failedLevel - 1));
+      return true;
+    };
+    
+    // hls.js reports its own errors; this covers progressive and native HLS
+    const handleElementError = () => {
+      if (hls) return;
+      
+      const error = videoElement.error;
+      if (error?.code === MediaError.MEDIA_ERR_ABORTED) return;
+      
+      const kind = classifyMediaError(error);
+      
+      if (kind === 'network' && retryLater(() => reloadSource(videoElement.currentSrc))) {
+        return;
+      }
+      if (current === 'native-hls') {
+        console.error('Native HLS playback failed, using progressive source:', error);
+        switchToProgressive();
+        return;
+      }
+      fail(kind, error?.message || 'Media error', error?.code ?? null);
+    };
+    
+    // Playing again means whatever went wrong has been dealt with
+    const handlePlaying = () => {
+      attempts = 0;
+      mediaRecoveries = 0;
+      setIsRecovering(false);
+    };
+    
+    // A paused video never fires playing, so having data again also ends
+    // the recovery; the retry budget is only reset by actual playback
+    const handleReady = () => {
+      setIsRecovering(false);
+    };
+    
+    videoElement.addEventListener('error', handleElementError);
+    videoElement.addEventListener('playing', handlePlaying);
+    videoElement.addEventListener('loadeddata', handleReady);
+    videoElement.addEventListener('canplay', handleReady);
+    
+    const cleanup = () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+      videoElement.removeEventListener('error', handleElementError);
+      videoElement.removeEventListener('playing', handlePlaying);
+      videoElement.removeEventListener('loadeddata', handleReady);
+      videoElement.removeEventListener('canplay', handleReady);
+      hls?.destroy();
+      hls = null;
+      hlsRef.current = null;
+    };
+    
+    // No manifest, play the uploaded file as before
+    if (!manifestUrl) {
+      setStreamType('progressive');
+      videoElement.src = progressiveUrl;
+      return cleanup;
+    }
+    
+    // Safari plays HLS natively and handles bitrate switching itself
+    if (!Hls.isSupported()) {
+      if (videoElement.canPlayType('application/vnd.apple.mpegurl')) {
+        current = 'native-hls';
+        setStreamType('native-hls');
+        videoElement.src = manifestUrl;
+      } else {
+        setStreamType('progressive');
+        videoElement.src = progressiveUrl;
+      }
+      return cleanup;
+    }
+    
+    hls = new Hls({ capLevelToPlayerSize: true });
+    hlsRef.current = hls;
+    current = 'hls';
+    setStreamType('hls');
+    
+    hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+      setLevels(
+        data.levels
+          .map((level, index) => ({ index, height: level.height, bitrate: level.bitrate }))
+          .sort((a, b) => b.height - a.height)
+      );
+    });
+    
+    hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+      setActiveLevel(data.level);
+    });
+    
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (!data.fatal || !hls) return;
+      
+      if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+        // startLoad only resumes fragment loading; without a manifest there is nothing to resume
+        const manifestFailed = data.details === Hls.ErrorDetails.MANIFEST_LOAD_ERROR
+          || data.details === Hls.ErrorDetails.MANIFEST_LOAD_TIMEOUT;
+        const reload = () => (manifestFailed ? hls?.loadSource(manifestUrl) : hls?.startLoad());
+        if (!retryLater(reload)) {
+          console.error('HLS kept failing to load, using progressive source:', data);
+          switchToProgressive();
+        }
+      } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+        // Recover, then try the other audio codec, then a lower rendition
+        mediaRecoveries += 1;
+        if (mediaRecoveries === 1) {
+          hls.recoverMediaError();
+        } else if (mediaRecoveries === 2) {
+          hls.swapAudioCodec();
+          hls.recoverMediaError();
+        } else if (dropRendition()) {
+          hls.recoverMediaError();
+        } else {
+          console.error('HLS media error persisted, using progressive source:', data);
+          switchToProgressive();
+        }
+      } else {
+        // Unrecoverable, drop back to the progressive file
+        console.error('HLS playback failed, using progressive source:', data);
+        switchToProgressive();
+      }
+    });
+    
+    hls.loadSource(manifestUrl);
+    hls.attachMedia(videoElement);
+    
+    return cleanup;
+  }, [videoId, manifestUrl, progressiveUrl, videoElement, attemptKey]);
+  
+  // Pick a rendition, or AUTO_QUALITY to hand control back to ABR
+  const selectLevel = (level: number) => {
+    if (!hlsRef.current) return;
+    
+    // nextLevel switches at the next fragment without flushing the buffer
+    hlsRef.current.nextLevel = level;
+    setSelectedLevel(level);
+  };
+  
+  // Start over after a failure, from where playback stopped
+  const retry = () => {
+    retryPositionRef.current = videoElement?.currentTime ?? null;
+    setAttemptKey(key => key + 1);
+  };
+  
+  return {
+    streamType,
+    levels,
+    selectedLevel,
+    activeLevel,
+    selectLevel,
+    failure,
+    isRecovering,
+    retry,
+  };
+}
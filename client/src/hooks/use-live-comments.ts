@@ -0,0 +1,40 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LiveComment } from "@/types";
+
+// Get the timestamped overlay comments for a video. These are kept apart
+// from the regular comment thread
+export function useLiveComments(videoId: number | null, enabled = true) {
+  return useQuery<LiveComment[]>({
+    queryKey: ["/api/videos", videoId, "live-comments"],
+    queryFn: async () => {
+      const res = await fetch(`/api/videos/${videoId}/live-comments`);
+      if (!res.ok) throw new Error("Failed to fetch live comments");
+      return res.json();
+    },
+    enabled: !!videoId && enabled,
+  });
+}
+
+// Post a short comment pinned to a playback position
+export function usePostLiveComment() {
+  return useMutation({
+    mutationFn: async ({ videoId, content, timestamp }: { videoId: number; content: string; timestamp: number }) => {
+      const res = await apiRequest("POST", `/api/videos/${videoId}/live-comments`, { content, timestamp });
+      return res.json();
+    },
+    onSuccess: (comment: LiveComment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/videos", comment.videoId, "live-comments"] });
+    },
+  });
+}
+
+// Flag a live comment for moderators
+export function useReportLiveComment() {
+  return useMutation({
+    mutationFn: async ({ commentId, reason }: { commentId: number; reason?: string }) => {
+      const res = await apiRequest("POST", `/api/live-comments/${commentId}/report`, { reason });
+      return res.json();
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import { createContext, ReactNode, useCallback, useContext, useRef, useState } from "react";
+import { VideoDetails } from "@/types";
+
+type MiniPlayerSession = {
+  video: VideoDetails;
+  startTime: number;
+};
+
+type MiniPlayerContextType = {
+  session: MiniPlayerSession | null;
+  openMiniPlayer: (video: VideoDetails, startTime: number) => void;
+  closeMiniPlayer: () => void;
+  updateMiniPlayerTime: (time: number) => void;
+  takeMiniPlayerHandoff: (videoId: number) => number | null;
+};
+
+export const MiniPlayerContext = createContext<MiniPlayerContextType | null>(null);
+
+// Keeps a video playing in a corner while the viewer browses other pages
+export function MiniPlayerProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<MiniPlayerSession | null>(null);
+  
+  // Latest position, kept out of state so playback doesn't re-render the app
+  const currentTimeRef = useRef(0);
+  
+  const openMiniPlayer = useCallback((video: VideoDetails, startTime: number) => {
+    currentTimeRef.current = startTime;
+    setSession({ video, startTime });
+  }, []);
+  
+  const closeMiniPlayer = useCallback(() => {
+    setSession(null);
+  }, []);
+  
+  const updateMiniPlayerTime = useCallback((time: number) => {
+    currentTimeRef.current = time;
+  }, []);
+  
+  // Called by the watch page: if the mini-player holds this video, close it
+  // and return where it was so full-size playback continues from there
+  const takeMiniPlayerHandoff = useCallback((videoId: number) => {
+    if (!session || session.video.id !== videoId) {
+      return null;
+    }
+    
+    setSession(null);
+    return currentTimeRef.current;
+  }, [session]);
+  
+  return (
+    <MiniPlayerContext.Provider
+      value={{
+        session,
+        openMiniPlayer,
+        closeMiniPlayer,
+        updateMiniPlayerTime,
+        takeMiniPlayerHandoff,
+      }}
+    >
+      {children}
+    </MiniPlayerContext.Provider>
+  );
+}
+
+export function useMiniPlayer() {
+  const context = useContext(MiniPlayerContext);
+  if (!context) {
+    throw new Error("useMiniPlayer must be used within a MiniPlayerProvider");
+  }
+  return context;
+}
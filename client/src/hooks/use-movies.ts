@@ -1,11 +1,14 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Video, Watchlist } from "@shared/schema";
+import { UploadConfig, VideoProcessingInfo } from "@/types";
+import { onlyReadyVideos } from "@/lib/video-utils";
 
 // Get all videos
 export function useAllVideos() {
   return useQuery({
     queryKey: ["/api/videos"],
+    select: (videos: Video[]) => onlyReadyVideos(videos),
   });
 }
 
@@ -13,6 +16,7 @@ export function useAllVideos() {
 export function useFeaturedVideos() {
   return useQuery({
     queryKey: ["/api/videos/featured"],
+    select: (videos: Video[]) => onlyReadyVideos(videos),
   });
 }
 
@@ -27,6 +31,7 @@ export function usePopularVideos(limit?: number) {
       if (!res.ok) throw new Error("Failed to fetch popular videos");
       return res.json();
     },
+    select: (videos: Video[]) => onlyReadyVideos(videos),
   });
 }
 
@@ -40,6 +45,7 @@ export function useVideosByCategory(category: string) {
       if (!res.ok) throw new Error(`Failed to fetch videos in category: ${category}`);
       return res.json();
     },
+    select: (videos: Video[]) => onlyReadyVideos(videos),
     enabled: !!category,
   });
 }
@@ -56,6 +62,11 @@ export function useVideo(id: number | string | null) {
       return res.json();
     },
     enabled: !!id,
+    // The watch page picks the video up as soon as transcoding finishes
+    refetchInterval: (query) => {
+      const video = query.state.data as VideoProcessingInfo | undefined;
+      return video?.status === 'processing' ? 5000 : false;
+    },
   });
 }
 
@@ -69,6 +80,7 @@ export function useSearchVideos(query: string) {
       if (!res.ok) throw new Error("Failed to search videos");
       return res.json();
     },
+    select: (videos: Video[]) => onlyReadyVideos(videos),
     enabled: !!query && query.length > 0,
   });
 }
@@ -85,6 +97,11 @@ export function useUserVideos(userId: number | null) {
       return res.json();
     },
     enabled: !!userId,
+    // Keep checking while any of them is still transcoding
+    refetchInterval: (query) => {
+      const videos = query.state.data as (Video & VideoProcessingInfo)[] | undefined;
+      return videos?.some(video => video.status === 'processing') ? 5000 : false;
+    },
   });
 }
 
@@ -99,6 +116,7 @@ export function useWatchlist(userId: number | null) {
       if (!res.ok) throw new Error("Failed to fetch watchlist");
       return res.json();
     },
+    select: (videos: Video[]) => onlyReadyVideos(videos),
     enabled: !!userId,
   });
 }
@@ -118,7 +136,15 @@ export function useIsInWatchlist(userId: number | null, videoId: number | null)
   });
 }
 
-// Upload a new video
+// Upload limits; the video file itself goes up separately, in resumable chunks
+export function useUploadConfig() {
+  return useQuery<UploadConfig>({
+    queryKey: ["/api/uploads/config"],
+    staleTime: Infinity,
+  });
+}
+
+// Create the video from its details and a finished upload (videoUploadId)
 export function useUploadVideo() {
   return useMutation({
     mutationFn: async (formData: FormData) => {
@@ -134,9 +160,10 @@ export function useUploadVideo() {
       
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (video: Video) => {
       // Invalidate related queries
       queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", video.userId, "videos"] });
     },
   });
 }
@@ -0,0 +1,201 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { PlaybackProblemReport, PlaybackSessionReport, StreamType, VideoPlaybackStats } from "@/types";
+import { createSessionId, flushPlaybackReports, queuePlaybackReport } from "@/lib/playback-telemetry";
+
+// Measure startup time, stalls, errors, dropped frames and rendition for
+// each viewing and report them in the background
+export function usePlaybackTelemetry(
+  videoElement: HTMLVideoElement | null,
+  videoId: number | null,
+  streamType: StreamType,
+  renditionHeight: number | null
+) {
+  // Read at report time, without restarting the session on every change
+  const streamTypeRef = useRef(streamType);
+  streamTypeRef.current = streamType;
+  const renditionRef = useRef(renditionHeight);
+  const renditionSwitchesRef = useRef(0);
+  
+  useEffect(() => {
+    if (renditionRef.current !== null && renditionHeight !== null && renditionHeight !== renditionRef.current) {
+      renditionSwitchesRef.current += 1;
+    }
+    renditionRef.current = renditionHeight;
+  }, [renditionHeight]);
+  
+  // One session per video, so refetching its details doesn't split it
+  useEffect(() => {
+    if (!videoId || !videoElement) return;
+    
+    const newSession = (): PlaybackSessionReport => ({
+      sessionId: createSessionId(),
+      videoId,
+      streamType: streamTypeRef.current,
+      startedAt: new Date().toISOString(),
+      startupTimeMs: null,
+      rebufferCount: 0,
+      rebufferDurationMs: 0,
+      watchTimeMs: 0,
+      droppedFrames: 0,
+      totalFrames: 0,
+      rendition: null,
+      renditionSwitches: 0,
+      errors: [],
+    });
+    
+    let session = newSession();
+    let playRequestedAt: number | null = null;
+    let started = false;
+    let stalledSince: number | null = null;
+    let playingSince: number | null = null;
+    // Hiding a page fires visibilitychange and then pagehide; only the first reports
+    let pageHidden = false;
+    // Frame counters are cumulative for the element, so report differences
+    let frameBaseline = videoElement.getVideoPlaybackQuality?.() ?? null;
+    renditionSwitchesRef.current = 0;
+    
+    const stopWatchClock = () => {
+      if (playingSince !== null) {
+        session.watchTimeMs += performance.now() - playingSince;
+        playingSince = null;
+      }
+    };
+    
+    const stopStallClock = () => {
+      if (stalledSince !== null) {
+        session.rebufferDurationMs += performance.now() - stalledSince;
+        stalledSince = null;
+      }
+    };
+    
+    const handlePlay = () => {
+      if (!started && playRequestedAt === null) {
+        playRequestedAt = performance.now();
+      }
+    };
+    
+    const handlePlaying = () => {
+      const now = performance.now();
+      if (!started && playRequestedAt !== null) {
+        session.startupTimeMs = Math.round(now - playRequestedAt);
+      }
+      started = true;
+      stopStallClock();
+      playingSince = now;
+    };
+    
+    // A stall after startup is a rebuffer, unless the viewer is seeking
+    const handleWaiting = () => {
+      stopWatchClock();
+      if (started && !videoElement.seeking && stalledSince === null) {
+        session.rebufferCount += 1;
+        stalledSince = performance.now();
+      }
+    };
+    
+    const handleStop = () => {
+      stopWatchClock();
+      stopStallClock();
+    };
+    
+    const handleError = () => {
+      const error = videoElement.error;
+      if (!error) return;
+      session.errors.push({ code: error.code, message: error.message, position: videoElement.currentTime });
+    };
+    
+    // Close off the numbers and queue the report, if anything happened
+    const report = () => {
+      handleStop();
+      
+      const quality = videoElement.getVideoPlaybackQuality?.();
+      if (quality) {
+        session.droppedFrames = quality.droppedVideoFrames - (frameBaseline?.droppedVideoFrames ?? 0);
+        session.totalFrames = quality.totalVideoFrames - (frameBaseline?.totalVideoFrames ?? 0);
+      }
+      frameBaseline = quality ?? null;
+      session.rendition = renditionRef.current ?? (videoElement.videoHeight || null);
+      session.renditionSwitches = renditionSwitchesRef.current;
+      
+      if (playRequestedAt !== null || session.watchTimeMs > 0 || session.errors.length > 0) {
+        session.rebufferDurationMs = Math.round(session.rebufferDurationMs);
+        session.watchTimeMs = Math.round(session.watchTimeMs);
+        queuePlaybackReport(session);
+      }
+    };
+    
+    // The page may never come back, so send what we have. If it does come
+    // back (tab switch, back/forward cache), carry on as a new session
+    const handlePageHide = () => {
+      if (pageHidden) return;
+      pageHidden = true;
+      
+      const wasPlaying = playingSince !== null;
+      report();
+      flushPlaybackReports();
+      
+      session = newSession();
+      playRequestedAt = null;
+      renditionSwitchesRef.current = 0;
+      // A later play only counts as startup if playback never began
+      if (wasPlaying) {
+        playingSince = performance.now();
+      }
+    };
+    
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        handlePageHide();
+      } else {
+        pageHidden = false;
+      }
+    };
+    
+    const handlePageShow = () => {
+      pageHidden = false;
+    };
+    
+    videoElement.addEventListener("play", handlePlay);
+    videoElement.addEventListener("playing", handlePlaying);
+    videoElement.addEventListener("waiting", handleWaiting);
+    videoElement.addEventListener("pause", handleStop);
+    videoElement.addEventListener("ended", handleStop);
+    videoElement.addEventListener("error", handleError);
+    window.addEventListener("pagehide", handlePageHide);
+    window.addEventListener("pageshow", handlePageShow);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    
+    return () => {
+      videoElement.removeEventListener("play", handlePlay);
+      videoElement.removeEventListener("playing", handlePlaying);
+      videoElement.removeEventListener("waiting", handleWaiting);
+      videoElement.removeEventListener("pause", handleStop);
+      videoElement.removeEventListener("ended", handleStop);
+      videoElement.removeEventListener("error", handleError);
+      window.removeEventListener("pagehide", handlePageHide);
+      window.removeEventListener("pageshow", handlePageShow);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      report();
+    };
+  }, [videoElement, videoId]);
+}
+
+// Per-video aggregates of the reported sessions (admin only)
+export function usePlaybackStats(enabled: boolean) {
+  return useQuery<VideoPlaybackStats[]>({
+    queryKey: ["/api/admin/playback-stats"],
+    enabled,
+  });
+}
+
+// Send diagnostics for a playback problem the viewer ran into
+export function useReportPlaybackProblem() {
+  return useMutation({
+    mutationFn: async (report: PlaybackProblemReport) => {
+      const res = await apiRequest("POST", "/api/playback-reports", report);
+      return res.json();
+    },
+  });
+}
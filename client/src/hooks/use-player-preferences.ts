@@ -0,0 +1,80 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "./use-auth";
+import { PlayerPreferences } from "@/types";
+
+export const defaultPlayerPreferences: PlayerPreferences = {
+  volume: 1,
+  muted: false,
+  playbackRate: 1,
+  loop: false,
+  autoplay: true,
+  liveComments: false,
+  liveCommentDensity: 'medium',
+};
+
+const STORAGE_KEY = "gorillaflix:player-preferences";
+
+// Wait for the volume slider to settle before writing to the server
+const SAVE_DELAY_MS = 500;
+
+function readStoredPreferences(): PlayerPreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultPlayerPreferences, ...JSON.parse(stored) } : defaultPlayerPreferences;
+  } catch {
+    return defaultPlayerPreferences;
+  }
+}
+
+function writeStoredPreferences(preferences: PlayerPreferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage can be unavailable in private browsing; settings last for this visit only
+  }
+}
+
+// Player settings such as volume, speed, loop and autoplay: kept on the server for signed-in
+// users and in localStorage for everyone else
+export function usePlayerPreferences() {
+  const { user } = useAuth();
+  const [localPreferences, setLocalPreferences] = useState<PlayerPreferences>(readStoredPreferences);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  
+  const { data: serverPreferences } = useQuery<PlayerPreferences>({
+    queryKey: ["/api/user/player-preferences"],
+    enabled: !!user,
+  });
+  
+  const { mutate: savePreferences } = useMutation({
+    mutationFn: async (preferences: PlayerPreferences) => {
+      const res = await apiRequest("PUT", "/api/user/player-preferences", preferences);
+      return res.json();
+    },
+  });
+  
+  useEffect(() => () => clearTimeout(saveTimerRef.current), []);
+  
+  const preferences: PlayerPreferences = user
+    ? { ...defaultPlayerPreferences, ...serverPreferences }
+    : localPreferences;
+  
+  const updatePreferences = (changes: Partial<PlayerPreferences>) => {
+    const next = { ...preferences, ...changes };
+    
+    if (!user) {
+      setLocalPreferences(next);
+      writeStoredPreferences(next);
+      return;
+    }
+    
+    // Apply immediately, then persist once the user stops adjusting
+    queryClient.setQueryData(["/api/user/player-preferences"], next);
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => savePreferences(next), SAVE_DELAY_MS);
+  };
+  
+  return { preferences, updatePreferences };
+}
@@ -0,0 +1,15 @@
+import { createContext, useContext } from "react";
+
+type PlayerSeekContextType = {
+  // Jump the watch-page player to a position and bring it into view
+  seekTo: (seconds: number) => void;
+};
+
+// Provided by the watch page so comments, the description and chapters can
+// drive the player without holding a ref to the <video> element
+export const PlayerSeekContext = createContext<PlayerSeekContextType | null>(null);
+
+// Returns null outside a watch page, where timestamps render as plain text
+export function usePlayerSeek() {
+  return useContext(PlayerSeekContext);
+}
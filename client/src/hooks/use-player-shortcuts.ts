@@ -0,0 +1,107 @@
+import { useEffect, useRef } from 'react';
+
+export type PlayerShortcutAction =
+  | 'togglePlay'
+  | 'seekBack'
+  | 'seekForward'
+  | 'rewind'
+  | 'fastForward'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'toggleCaptions'
+  | 'jumpToPercent'
+  | 'slower'
+  | 'faster'
+  | 'frameBack'
+  | 'frameForward'
+  | 'toggleHelp';
+
+// Shown in the "?" help overlay, in display order
+export const playerShortcuts: { keys: string[]; description: string }[] = [
+  { keys: ['Space', 'K'], description: 'Play / pause' },
+  { keys: ['J'], description: 'Rewind 10 seconds' },
+  { keys: ['L'], description: 'Forward 10 seconds' },
+  { keys: ['←'], description: 'Rewind 5 seconds' },
+  { keys: ['→'], description: 'Forward 5 seconds' },
+  { keys: ['M'], description: 'Mute / unmute' },
+  { keys: ['F'], description: 'Toggle fullscreen' },
+  { keys: ['C'], description: 'Toggle captions' },
+  { keys: ['0', '–', '9'], description: 'Jump to 0% – 90% of the video' },
+  { keys: ['<'], description: 'Slow down playback' },
+  { keys: ['>'], description: 'Speed up playback' },
+  { keys: [','], description: 'Previous frame (practice mode, paused)' },
+  { keys: ['.'], description: 'Next frame (practice mode, paused)' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' },
+];
+
+const keyActions: Record<string, PlayerShortcutAction> = {
+  ' ': 'togglePlay',
+  k: 'togglePlay',
+  j: 'rewind',
+  l: 'fastForward',
+  ArrowLeft: 'seekBack',
+  ArrowRight: 'seekForward',
+  m: 'toggleMute',
+  f: 'toggleFullscreen',
+  c: 'toggleCaptions',
+  '<': 'slower',
+  '>': 'faster',
+  ',': 'frameBack',
+  '.': 'frameForward',
+  '?': 'toggleHelp',
+};
+
+// Inputs that take typed text; sliders, checkboxes and buttons don't, so the
+// shortcuts keep working after the seek bar or a toggle has been clicked
+const textInputTypes = ['text', 'search', 'email', 'url', 'tel', 'password', 'number', 'date', 'datetime-local', 'month', 'time', 'week'];
+
+// Typing in the comment box or search field must not drive the player
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  
+  const tagName = target.tagName;
+  return (
+    (target instanceof HTMLInputElement && textInputTypes.includes(target.type)) ||
+    tagName === 'TEXTAREA' ||
+    tagName === 'SELECT' ||
+    target.isContentEditable
+  );
+}
+
+// YouTube-style keyboard control for the video player
+export function usePlayerShortcuts(
+  handlers: Partial<Record<PlayerShortcutAction, (value?: number) => void>>,
+  enabled = true
+) {
+  // Keep the latest handlers without re-binding the listener every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  
+  useEffect(() => {
+    if (!enabled) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isTypingTarget(e.target)) return;
+      
+      const key = e.key.length === 1 && e.key !== '<' && e.key !== '>' ? e.key.toLowerCase() : e.key;
+      
+      if (/^[0-9]$/.test(key)) {
+        e.preventDefault();
+        handlersRef.current.jumpToPercent?.(parseInt(key) * 10);
+        return;
+      }
+      
+      const action = keyActions[key];
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      
+      // Stop space from scrolling the page and buttons from re-activating
+      e.preventDefault();
+      handler();
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
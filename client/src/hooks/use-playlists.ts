@@ -0,0 +1,133 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Playlist, PlaylistVisibility, PlaylistWithVideos } from "@/types";
+import { onlyReadyVideos } from "@/lib/video-utils";
+
+// Get a user's playlists (others only see public ones)
+export function useUserPlaylists(userId: number | null) {
+  return useQuery<Playlist[]>({
+    queryKey: ["/api/users", userId, "playlists"],
+    queryFn: async ({ queryKey }) => {
+      const [base, userId] = queryKey;
+      if (!userId) throw new Error("User ID is required");
+      const res = await fetch(`${base}/${userId}/playlists`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch playlists");
+      return res.json();
+    },
+    enabled: !!userId,
+  });
+}
+
+// Get a playlist with its videos in order. Videos that can't play yet are
+// left out of `videos` but stay in `videoIds`
+export function usePlaylist(id: number | null) {
+  return useQuery<PlaylistWithVideos>({
+    queryKey: ["/api/playlists", id],
+    queryFn: async ({ queryKey }) => {
+      const [base, id] = queryKey;
+      if (!id) throw new Error("Playlist ID is required");
+      const res = await fetch(`${base}/${id}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch playlist");
+      return res.json();
+    },
+    select: (playlist) => ({ ...playlist, videos: onlyReadyVideos(playlist.videos) }),
+    enabled: !!id,
+  });
+}
+
+// Refresh a playlist and its owner's list after any change
+function invalidatePlaylist(playlist: Playlist) {
+  queryClient.invalidateQueries({ queryKey: ["/api/playlists", playlist.id] });
+  queryClient.invalidateQueries({ queryKey: ["/api/users", playlist.userId, "playlists"] });
+}
+
+// Create a playlist, optionally starting with a video
+export function useCreatePlaylist() {
+  return useMutation({
+    mutationFn: async (data: { name: string; visibility: PlaylistVisibility; videoId?: number }) => {
+      const res = await apiRequest("POST", "/api/playlists", data);
+      return res.json();
+    },
+    onSuccess: (playlist: Playlist) => {
+      invalidatePlaylist(playlist);
+    },
+  });
+}
+
+// Rename, describe or change who can see a playlist
+export function useUpdatePlaylist() {
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: { id: number; name?: string; description?: string; visibility?: PlaylistVisibility }) => {
+      const res = await apiRequest("PATCH", `/api/playlists/${id}`, changes);
+      return res.json();
+    },
+    onSuccess: (playlist: Playlist) => {
+      invalidatePlaylist(playlist);
+    },
+  });
+}
+
+// Delete a playlist
+export function useDeletePlaylist() {
+  return useMutation({
+    mutationFn: async (playlist: Playlist) => {
+      const res = await apiRequest("DELETE", `/api/playlists/${playlist.id}`);
+      return res.json();
+    },
+    onSuccess: (_data, playlist) => {
+      invalidatePlaylist(playlist);
+    },
+  });
+}
+
+// Append a video to a playlist
+export function useAddToPlaylist() {
+  return useMutation({
+    mutationFn: async ({ playlistId, videoId }: { playlistId: number; videoId: number }) => {
+      const res = await apiRequest("POST", `/api/playlists/${playlistId}/videos`, { videoId });
+      return res.json();
+    },
+    onSuccess: (playlist: Playlist) => {
+      invalidatePlaylist(playlist);
+    },
+  });
+}
+
+// Remove a video from a playlist
+export function useRemoveFromPlaylist() {
+  return useMutation({
+    mutationFn: async ({ playlistId, videoId }: { playlistId: number; videoId: number }) => {
+      const res = await apiRequest("DELETE", `/api/playlists/${playlistId}/videos/${videoId}`);
+      return res.json();
+    },
+    onSuccess: (playlist: Playlist) => {
+      invalidatePlaylist(playlist);
+    },
+  });
+}
+
+// Save a new video order; the cached playlist is reordered right away
+export function useReorderPlaylist() {
+  return useMutation({
+    mutationFn: async ({ playlistId, videoIds }: { playlistId: number; videoIds: number[] }) => {
+      const res = await apiRequest("PUT", `/api/playlists/${playlistId}/order`, { videoIds });
+      return res.json();
+    },
+    onMutate: ({ playlistId, videoIds }) => {
+      queryClient.setQueryData<PlaylistWithVideos>(["/api/playlists", playlistId], playlist => {
+        if (!playlist) return playlist;
+        const byId = new Map(playlist.videos.map(video => [video.id, video]));
+        return {
+          ...playlist,
+          videos: videoIds.map(id => byId.get(id)).filter((video): video is NonNullable<typeof video> => !!video),
+        };
+      });
+    },
+    onError: (_error, { playlistId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/playlists", playlistId] });
+    },
+    onSuccess: (playlist: Playlist) => {
+      invalidatePlaylist(playlist);
+    },
+  });
+}
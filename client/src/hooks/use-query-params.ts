@@ -0,0 +1,8 @@
+import { useSearch } from 'wouter';
+
+// Query string of the current URL. Subscribing to the search string makes
+// callers re-render when only the query changes, e.g. /watch/1 -> /watch/1?party=abc
+export function useQueryParams(): URLSearchParams {
+  const search = useSearch();
+  return new URLSearchParams(search);
+}
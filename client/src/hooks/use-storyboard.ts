@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { parseStoryboardVtt } from "@/lib/storyboard";
+import { StoryboardFrame } from "@/types";
+
+// Load the seek-preview thumbnails index for a video
+export function useStoryboard(storyboardUrl: string | null | undefined) {
+  return useQuery<StoryboardFrame[]>({
+    queryKey: ["storyboard", storyboardUrl],
+    queryFn: async () => {
+      const res = await fetch(storyboardUrl as string);
+      if (!res.ok) throw new Error("Failed to fetch storyboard");
+      return parseStoryboardVtt(await res.text(), storyboardUrl as string);
+    },
+    enabled: !!storyboardUrl,
+  });
+}
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type TapSide = 'left' | 'right';
+
+interface TouchGestureOptions {
+  duration: number;
+  // Vertical swipes would fight page scrolling, so they're only on in fullscreen
+  verticalSwipes: boolean;
+  getCurrentTime: () => number;
+  getVolume: () => number;
+  getBrightness: () => number;
+  onTap: () => void;
+  onDoubleTap: (side: TapSide) => void;
+  onScrub: (time: number) => void;
+  onVolumeChange: (volume: number) => void;
+  onBrightnessChange: (brightness: number) => void;
+}
+
+type Gesture = 'scrub' | 'volume' | 'brightness';
+
+type TouchState = {
+  startX: number;
+  startY: number;
+  width: number;
+  height: number;
+  side: TapSide;
+  gesture: Gesture | null;
+  startValue: number;
+};
+
+const DOUBLE_TAP_MS = 300;
+
+// Movement before a touch counts as a swipe rather than a tap
+const SWIPE_THRESHOLD = 10;
+
+// A full-width drag covers at most this much of the video
+const MAX_SCRUB_RANGE = 90;
+
+const MIN_BRIGHTNESS = 0.3;
+const MAX_BRIGHTNESS = 1.5;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+// Phone-style player gestures: tap to show controls, double-tap a side to seek,
+// drag sideways to scrub, swipe up/down for brightness (left) and volume (right)
+export function useTouchGestures(options: TouchGestureOptions) {
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const touchRef = useRef<TouchState | null>(null);
+  const lastTapRef = useRef<{ time: number; side: TapSide } | null>(null);
+  // A single tap waits to see whether a second one follows
+  const tapTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(tapTimerRef.current), []);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const handlers = {
+    onTouchStart: (e: React.TouchEvent<HTMLElement>) => {
+      // Pinches and other multi-finger touches belong to the browser
+      if (e.touches.length > 1) {
+        touchRef.current = null;
+        setScrubTime(null);
+        return;
+      }
+
+      const touch = e.touches[0];
+      const rect = e.currentTarget.getBoundingClientRect();
+      touchRef.current = {
+        startX: touch.clientX,
+        startY: touch.clientY,
+        width: rect.width,
+        height: rect.height,
+        side: touch.clientX - rect.left < rect.width / 2 ? 'left' : 'right',
+        gesture: null,
+        startValue: 0,
+      };
+    },
+    onTouchMove: (e: React.TouchEvent<HTMLElement>) => {
+      const state = touchRef.current;
+      if (!state) return;
+
+      const { duration, verticalSwipes, getCurrentTime, getVolume, getBrightness } = optionsRef.current;
+      const touch = e.touches[0];
+      const dx = touch.clientX - state.startX;
+      const dy = touch.clientY - state.startY;
+
+      // The first clear direction decides what the swipe does
+      if (!state.gesture) {
+        if (Math.abs(dx) < SWIPE_THRESHOLD && Math.abs(dy) < SWIPE_THRESHOLD) return;
+
+        if (Math.abs(dx) >= Math.abs(dy)) {
+          if (!duration) return;
+          state.gesture = 'scrub';
+          state.startValue = getCurrentTime();
+        } else if (verticalSwipes) {
+          state.gesture = state.side === 'left' ? 'brightness' : 'volume';
+          state.startValue = state.gesture === 'brightness' ? getBrightness() : getVolume();
+        } else {
+          touchRef.current = null;
+          return;
+        }
+      }
+
+      if (state.gesture === 'scrub') {
+        const range = Math.min(duration, MAX_SCRUB_RANGE);
+        setScrubTime(clamp(state.startValue + (dx / state.width) * range, 0, duration));
+      } else if (state.gesture === 'volume') {
+        optionsRef.current.onVolumeChange(clamp(state.startValue - dy / state.height, 0, 1));
+      } else {
+        const range = MAX_BRIGHTNESS - MIN_BRIGHTNESS;
+        optionsRef.current.onBrightnessChange(
+          clamp(state.startValue - (dy / state.height) * range, MIN_BRIGHTNESS, MAX_BRIGHTNESS)
+        );
+      }
+    },
+    onTouchEnd: (e: React.TouchEvent<HTMLElement>) => {
+      const state = touchRef.current;
+      touchRef.current = null;
+      if (!state) return;
+
+      // Keep the browser from following up with mouse events and a click
+      e.preventDefault();
+
+      if (state.gesture === 'scrub') {
+        if (scrubTime !== null) {
+          optionsRef.current.onScrub(scrubTime);
+        }
+        setScrubTime(null);
+        return;
+      }
+      if (state.gesture) return;
+
+      // Rapid taps on the same side keep seeking, like repeated double-taps
+      const now = Date.now();
+      const lastTap = lastTapRef.current;
+      clearTimeout(tapTimerRef.current);
+      if (lastTap && now - lastTap.time < DOUBLE_TAP_MS && lastTap.side === state.side) {
+        lastTapRef.current = { time: now, side: state.side };
+        optionsRef.current.onDoubleTap(state.side);
+      } else {
+        lastTapRef.current = { time: now, side: state.side };
+        tapTimerRef.current = setTimeout(() => optionsRef.current.onTap(), DOUBLE_TAP_MS);
+      }
+    },
+    onTouchCancel: () => {
+      touchRef.current = null;
+      setScrubTime(null);
+    },
+  };
+
+  return { handlers, scrubTime };
+}
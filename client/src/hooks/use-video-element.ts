@@ -0,0 +1,16 @@
+import { useCallback, useRef, useState } from "react";
+
+// A player's <video> element, both as a ref for event handlers and as state,
+// so effects that need it run again once it mounts after a loading screen
+export function useVideoElement() {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  
+  // Pass as the element's ref
+  const attachVideo = useCallback((element: HTMLVideoElement | null) => {
+    videoRef.current = element;
+    setVideoElement(element);
+  }, []);
+  
+  return { videoRef, videoElement, attachVideo };
+}
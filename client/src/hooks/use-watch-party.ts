@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { WatchParty, WatchPartyChatMessage, WatchPartyPlayback } from "@/types";
+import {
+  WATCH_PARTY_DRIFT_CHECK,
+  WATCH_PARTY_HEARTBEAT,
+  WatchPartyClientMessage,
+  WatchPartyServerMessage,
+  getDriftCorrection,
+  getExpectedPosition,
+  getWatchPartySocketUrl,
+} from "@/lib/watch-party";
+
+export type WatchPartyStatus = "connecting" | "connected" | "reconnecting" | "ended";
+
+// Keep the chat from growing without bound in long sessions
+const MAX_CHAT_MESSAGES = 200;
+
+// Open a watch party room for a video; the caller becomes its host
+export function useCreateWatchParty() {
+  return useMutation({
+    mutationFn: async (data: { videoId: number }): Promise<WatchParty> => {
+      const res = await apiRequest("POST", "/api/watch-parties", data);
+      return res.json();
+    },
+  });
+}
+
+// Join a watch party room. The host's play, pause and seek go out to the
+// room; everyone else follows the host's playback
+export function useWatchParty(
+  partyId: string | null,
+  videoElement: HTMLVideoElement | null,
+  userId: number | null
+) {
+  const [status, setStatus] = useState<WatchPartyStatus>("connecting");
+  const [party, setParty] = useState<WatchParty | null>(null);
+  const [messages, setMessages] = useState<WatchPartyChatMessage[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  
+  // The host's last report and when it arrived, for drift correction
+  const hostPlaybackRef = useRef<{ playback: WatchPartyPlayback; receivedAt: number } | null>(null);
+  
+  const isHost = !!party && party.hostId === userId;
+  const isHostRef = useRef(isHost);
+  isHostRef.current = isHost;
+  // Read by followHost, so a player mounting late doesn't reconnect the socket
+  const videoElementRef = useRef(videoElement);
+  videoElementRef.current = videoElement;
+  
+  const send = useCallback((message: WatchPartyClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  }, []);
+  
+  // Bring the local player in line with the host
+  const followHost = useCallback(() => {
+    const videoElement = videoElementRef.current;
+    const hostPlayback = hostPlaybackRef.current;
+    if (!videoElement || !hostPlayback || isHostRef.current) return;
+    
+    const { playback, receivedAt } = hostPlayback;
+    if (playback.playing && videoElement.paused) {
+      videoElement.play().catch(err => {
+        console.error("Failed to follow host playback:", err);
+      });
+    } else if (!playback.playing && !videoElement.paused) {
+      videoElement.pause();
+    }
+    
+    const expected = getExpectedPosition(playback, receivedAt);
+    const correction = getDriftCorrection(videoElement.currentTime - expected, playback);
+    if (correction.seek) {
+      videoElement.currentTime = expected;
+    }
+    videoElement.playbackRate = correction.rate;
+  }, []);
+  
+  // Connection, reconnecting with backoff until the room ends or we leave
+  useEffect(() => {
+    if (!partyId || !userId) return;
+    
+    let closed = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    
+    const connect = () => {
+      const socket = new WebSocket(getWatchPartySocketUrl(partyId));
+      socketRef.current = socket;
+      
+      socket.onopen = () => {
+        attempts = 0;
+        setStatus("connected");
+      };
+      
+      socket.onmessage = (e) => {
+        let message: WatchPartyServerMessage;
+        try {
+          message = JSON.parse(e.data);
+        } catch {
+          return;
+        }
+        
+        switch (message.type) {
+          case "state":
+            setParty(message.party);
+            setMessages(message.messages.slice(-MAX_CHAT_MESSAGES));
+            if (message.party.hostId !== userId) {
+              hostPlaybackRef.current = { playback: message.party.playback, receivedAt: performance.now() };
+              followHost();
+            }
+            break;
+          case "playback":
+            hostPlaybackRef.current = { playback: message.playback, receivedAt: performance.now() };
+            followHost();
+            break;
+          case "participants":
+            setParty(current => current && { ...current, participants: message.participants });
+            break;
+          case "host":
+            setParty(current => current && { ...current, hostId: message.hostId });
+            break;
+          case "chat":
+            setMessages(current => [...current, message.message].slice(-MAX_CHAT_MESSAGES));
+            break;
+          case "ended":
+            closed = true;
+            setStatus("ended");
+            socket.close();
+            break;
+        }
+      };
+      
+      socket.onclose = () => {
+        if (socketRef.current === socket) {
+          socketRef.current = null;
+        }
+        if (closed) return;
+        
+        setStatus("reconnecting");
+        attempts += 1;
+        retryTimer = setTimeout(connect, Math.min(1000 * 2 ** attempts, 15000));
+      };
+    };
+    
+    setStatus("connecting");
+    connect();
+    
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      hostPlaybackRef.current = null;
+      setParty(null);
+      setMessages([]);
+    };
+  }, [partyId, userId, followHost]);
+  
+  // Host: report every play, pause, seek and rate change, plus a heartbeat
+  // so late joiners and drifting followers have something recent to go on
+  useEffect(() => {
+    if (!videoElement || !isHost || status !== "connected") return;
+    
+    // A follower promoted to host drops any catch-up rate it was using
+    if (hostPlaybackRef.current) {
+      videoElement.playbackRate = hostPlaybackRef.current.playback.rate;
+      hostPlaybackRef.current = null;
+    }
+    
+    const broadcast = () => {
+      send({
+        type: "playback",
+        playback: {
+          playing: !videoElement.paused && !videoElement.ended,
+          position: videoElement.currentTime,
+          rate: videoElement.playbackRate,
+        },
+      });
+    };
+    
+    const events = ["play", "pause", "seeked", "ratechange"];
+    events.forEach(event => videoElement.addEventListener(event, broadcast));
+    const heartbeat = setInterval(broadcast, WATCH_PARTY_HEARTBEAT);
+    broadcast();
+    
+    return () => {
+      events.forEach(event => videoElement.removeEventListener(event, broadcast));
+      clearInterval(heartbeat);
+    };
+  }, [videoElement, isHost, status, send]);
+  
+  // Followers: keep correcting drift between host reports
+  useEffect(() => {
+    if (!partyId || isHost || status !== "connected") return;
+    
+    const interval = setInterval(followHost, WATCH_PARTY_DRIFT_CHECK);
+    return () => clearInterval(interval);
+  }, [partyId, isHost, status, followHost]);
+  
+  const sendChat = useCallback((content: string) => {
+    send({ type: "chat", content });
+  }, [send]);
+  
+  const transferHost = useCallback((newHostId: number) => {
+    send({ type: "transferHost", userId: newHostId });
+  }, [send]);
+  
+  return { status, party, messages, isHost, sendChat, transferHost };
+}
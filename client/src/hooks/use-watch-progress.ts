@@ -0,0 +1,99 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ContinueWatchingEntry, WatchProgress } from "@/types";
+import { isVideoReady } from "@/lib/video-utils";
+
+// Get the signed-in user's saved position in a video
+export function useWatchProgress(userId: number | null, videoId: number | null) {
+  return useQuery<WatchProgress | null>({
+    queryKey: ["/api/watch-progress", userId, videoId],
+    queryFn: async () => {
+      const res = await fetch(`/api/watch-progress/${videoId}`, { credentials: "include" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch watch progress");
+      return res.json();
+    },
+    enabled: !!userId && !!videoId,
+  });
+}
+
+// Get partially watched videos, most recent first
+export function useContinueWatching(userId: number | null) {
+  return useQuery<ContinueWatchingEntry[]>({
+    queryKey: ["/api/users", userId, "continue-watching"],
+    queryFn: async ({ queryKey }) => {
+      const [base, userId] = queryKey;
+      const res = await fetch(`${base}/${userId}/continue-watching`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch continue watching");
+      return res.json();
+    },
+    select: (entries) => entries.filter(entry => isVideoReady(entry.video)),
+    enabled: !!userId,
+  });
+}
+
+// Save the current position; the video page saves often, so only
+// the Continue Watching row is refreshed
+export function useSaveWatchProgress() {
+  return useMutation({
+    mutationFn: async (progress: { videoId: number; position: number; duration: number; completed?: boolean }) => {
+      const res = await apiRequest("PUT", `/api/watch-progress/${progress.videoId}`, progress);
+      return res.json();
+    },
+    onSuccess: (progress: WatchProgress) => {
+      queryClient.setQueryData(["/api/watch-progress", progress.userId, progress.videoId], progress);
+      queryClient.invalidateQueries({ queryKey: ["/api/users", progress.userId, "continue-watching"] });
+    },
+  });
+}
+
+// How often playback position is written while a video is playing
+const SAVE_INTERVAL_MS = 10000;
+
+// Persist the position of a playing video, throttled from timeupdate and
+// flushed on pause, end and when the player goes away
+export function useTrackWatchProgress(
+  videoElement: HTMLVideoElement | null,
+  videoId: number | null,
+  userId: number | null
+) {
+  const { mutate: saveProgress } = useSaveWatchProgress();
+  const lastSavedAtRef = useRef(0);
+  
+  // Keyed on the element as well, which mounts after the loading and processing screens
+  useEffect(() => {
+    if (!videoElement || !videoId || !userId) return;
+    
+    const save = (completed = false) => {
+      const { currentTime, duration } = videoElement;
+      if (!duration || !isFinite(duration) || currentTime < 1) return;
+      
+      lastSavedAtRef.current = Date.now();
+      saveProgress({ videoId, position: currentTime, duration, completed });
+    };
+    
+    const handleTimeUpdate = () => {
+      if (Date.now() - lastSavedAtRef.current >= SAVE_INTERVAL_MS) {
+        save();
+      }
+    };
+    
+    const handlePause = () => save();
+    const handleEnded = () => save(true);
+    
+    videoElement.addEventListener("timeupdate", handleTimeUpdate);
+    videoElement.addEventListener("pause", handlePause);
+    videoElement.addEventListener("ended", handleEnded);
+    
+    return () => {
+      videoElement.removeEventListener("timeupdate", handleTimeUpdate);
+      videoElement.removeEventListener("pause", handlePause);
+      videoElement.removeEventListener("ended", handleEnded);
+      
+      if (!videoElement.ended) {
+        save();
+      }
+    };
+  }, [videoElement, videoId, userId, saveProgress]);
+}
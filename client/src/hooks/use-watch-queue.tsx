@@ -0,0 +1,74 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import { Video } from "@shared/schema";
+
+type WatchQueueContextType = {
+  queue: Video[];
+  addToQueue: (video: Video) => void;
+  removeFromQueue: (videoId: number) => void;
+  clearQueue: () => void;
+  isQueued: (videoId: number) => boolean;
+};
+
+const STORAGE_KEY = "gorillaflix:watch-queue";
+
+function readStoredQueue(): Video[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const WatchQueueContext = createContext<WatchQueueContextType | null>(null);
+
+// Videos the viewer lined up to play next, kept in this browser
+export function WatchQueueProvider({ children }: { children: ReactNode }) {
+  const [queue, setQueue] = useState<Video[]>(readStoredQueue);
+  
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    } catch {
+      // Storage can be unavailable in private browsing; the queue lasts for this visit only
+    }
+  }, [queue]);
+  
+  const addToQueue = useCallback((video: Video) => {
+    setQueue(prev => prev.some(item => item.id === video.id) ? prev : [...prev, video]);
+  }, []);
+  
+  const removeFromQueue = useCallback((videoId: number) => {
+    setQueue(prev => prev.filter(item => item.id !== videoId));
+  }, []);
+  
+  const clearQueue = useCallback(() => {
+    setQueue([]);
+  }, []);
+  
+  const isQueued = useCallback((videoId: number) => {
+    return queue.some(item => item.id === videoId);
+  }, [queue]);
+  
+  return (
+    <WatchQueueContext.Provider
+      value={{
+        queue,
+        addToQueue,
+        removeFromQueue,
+        clearQueue,
+        isQueued,
+      }}
+    >
+      {children}
+    </WatchQueueContext.Provider>
+  );
+}
+
+export function useWatchQueue() {
+  const context = useContext(WatchQueueContext);
+  if (!context) {
+    throw new Error("useWatchQueue must be used within a WatchQueueProvider");
+  }
+  return context;
+}
@@ -0,0 +1,84 @@
+import { useRef, useState } from 'react';
+import { MAX_ZOOM } from '@/lib/practice';
+
+type ZoomState = {
+  scale: number;
+  x: number; // Pan offset in pixels, before scaling
+  y: number;
+};
+
+const initialZoom: ZoomState = { scale: 1, x: 0, y: 0 };
+
+// Keep the zoomed content covering the frame so no black edges show
+function clampPan(zoom: ZoomState, width: number, height: number): ZoomState {
+  const maxX = (width * (zoom.scale - 1)) / (2 * zoom.scale);
+  const maxY = (height * (zoom.scale - 1)) / (2 * zoom.scale);
+  return {
+    ...zoom,
+    x: Math.max(-maxX, Math.min(zoom.x, maxX)),
+    y: Math.max(-maxY, Math.min(zoom.y, maxY)),
+  };
+}
+
+// Zoom into an element and drag to pan around, for inspecting detail
+export function useZoomPan() {
+  const [zoom, setZoom] = useState<ZoomState>(initialZoom);
+  const dragRef = useRef<{ startX: number; startY: number; originX: number; originY: number } | null>(null);
+  
+  // A drag ends in a click, which must not also toggle playback
+  const draggedRef = useRef(false);
+  
+  const setScale = (scale: number, element?: HTMLElement | null) => {
+    const nextScale = Math.max(1, Math.min(scale, MAX_ZOOM));
+    setZoom(current => {
+      const next = { ...current, scale: nextScale };
+      return element ? clampPan(next, element.clientWidth, element.clientHeight) : next;
+    });
+  };
+  
+  const reset = () => {
+    setZoom(initialZoom);
+  };
+  
+  const handlers = {
+    onMouseDown: (e: React.MouseEvent<HTMLElement>) => {
+      draggedRef.current = false;
+      if (zoom.scale <= 1) return;
+      dragRef.current = { startX: e.clientX, startY: e.clientY, originX: zoom.x, originY: zoom.y };
+    },
+    onMouseMove: (e: React.MouseEvent<HTMLElement>) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      
+      const dx = e.clientX - drag.startX;
+      const dy = e.clientY - drag.startY;
+      if (Math.abs(dx) + Math.abs(dy) > 3) {
+        draggedRef.current = true;
+      }
+      
+      const element = e.currentTarget;
+      setZoom(current => clampPan(
+        { ...current, x: drag.originX + dx / current.scale, y: drag.originY + dy / current.scale },
+        element.clientWidth,
+        element.clientHeight
+      ));
+    },
+    onMouseUp: () => {
+      dragRef.current = null;
+    },
+    onMouseLeave: () => {
+      dragRef.current = null;
+    },
+  };
+  
+  const style: React.CSSProperties = zoom.scale > 1
+    ? {
+        transform: `scale(${zoom.scale}) translate(${zoom.x}px, ${zoom.y}px)`,
+        cursor: 'grab',
+      }
+    : {};
+  
+  const wasDragged = () => draggedRef.current;
+  
+  return { scale: zoom.scale, style, handlers, setScale, reset, wasDragged };
+}
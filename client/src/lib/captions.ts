@@ -0,0 +1,83 @@
+// Languages creators can attach subtitles in
+export const captionLanguages = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'zh', label: 'Chinese' },
+];
+
+export function getLanguageLabel(code: string): string {
+  return captionLanguages.find(language => language.code === code)?.label || code;
+}
+
+// Convert SubRip (.srt) text to WebVTT
+export function srtToVtt(srt: string): string {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n{2,}/)
+    .map(block => {
+      const lines = block.split('\n');
+      
+      // Drop the numeric cue index SRT puts above each timing line
+      if (/^\d+$/.test(lines[0].trim())) {
+        lines.shift();
+      }
+      
+      // SRT uses a comma before milliseconds, WebVTT uses a dot
+      if (lines.length > 0) {
+        lines[0] = lines[0].replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+      }
+      
+      return lines.join('\n');
+    })
+    .join('\n\n');
+  
+  return `WEBVTT\n\n${body}\n`;
+}
+
+// Normalise a subtitle file to a WebVTT file the player can load
+export async function toVttFile(file: File): Promise<File> {
+  const text = await file.text();
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  
+  if (text.trimStart().startsWith('WEBVTT')) {
+    return new File([text], `${baseName}.vtt`, { type: 'text/vtt' });
+  }
+  
+  if (!file.name.toLowerCase().endsWith('.srt')) {
+    throw new Error('Subtitles must be an .srt or .vtt file');
+  }
+  
+  return new File([srtToVtt(text)], `${baseName}.vtt`, { type: 'text/vtt' });
+}
+
+// Caption choice is remembered per user in this browser
+const captionPreferenceKey = (userId: number | null) =>
+  `gorillaflix:captions:${userId ?? 'guest'}`;
+
+export function getCaptionPreference(userId: number | null): string | null {
+  try {
+    return localStorage.getItem(captionPreferenceKey(userId));
+  } catch {
+    return null;
+  }
+}
+
+export function setCaptionPreference(userId: number | null, language: string | null) {
+  try {
+    if (language) {
+      localStorage.setItem(captionPreferenceKey(userId), language);
+    } else {
+      localStorage.removeItem(captionPreferenceKey(userId));
+    }
+  } catch {
+    // Storage can be unavailable in private browsing; the choice just isn't kept
+  }
+}
@@ -0,0 +1,65 @@
+import { Chapter } from "../types";
+import { parseTimestamp } from "./video-utils";
+
+// A line that starts (or ends) with a timestamp, e.g. "0:00 Intro" or "Intro - 0:00"
+const LEADING_TIMESTAMP = /^\s*[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]?\s*[-–—:|.]?\s*(.+?)\s*$/;
+const TRAILING_TIMESTAMP = /^\s*(.+?)(?:\s*[-–—|]\s*|\s+)[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]?\s*$/;
+
+// Parse chapter lines out of free text. Follows the usual convention: the
+// first chapter starts at 0:00, there are at least two, and they ascend
+export function parseChapters(text: string | null | undefined): Chapter[] {
+  if (!text) {
+    return [];
+  }
+  
+  const chapters: Chapter[] = [];
+  
+  for (const line of text.split(/\r?\n/)) {
+    let timestamp: string | undefined;
+    let title: string | undefined;
+    
+    const leading = line.match(LEADING_TIMESTAMP);
+    const trailing = line.match(TRAILING_TIMESTAMP);
+    if (leading) {
+      [, timestamp, title] = leading;
+    } else if (trailing) {
+      [, title, timestamp] = trailing;
+    }
+    
+    if (!timestamp || !title) continue;
+    
+    const start = parseTimestamp(timestamp);
+    if (start === null) continue;
+    
+    // Out-of-order stamps are probably mentions, not chapters
+    if (chapters.length > 0 && start <= chapters[chapters.length - 1].start) continue;
+    
+    chapters.push({ start, title });
+  }
+  
+  if (chapters.length < 2 || chapters[0].start !== 0) {
+    return [];
+  }
+  
+  return chapters;
+}
+
+// Chapters for a video: the uploaded list if any, else whatever the description holds
+export function getVideoChapters(video: { chapters?: Chapter[] | null; description?: string | null }): Chapter[] {
+  if (video.chapters && video.chapters.length > 0) {
+    return [...video.chapters].sort((a, b) => a.start - b.start);
+  }
+  
+  return parseChapters(video.description);
+}
+
+// Index of the chapter playing at a given time, or -1 before the first one
+export function getChapterIndexAt(chapters: Chapter[], time: number): number {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (time >= chapters[i].start) {
+      return i;
+    }
+  }
+  
+  return -1;
+}
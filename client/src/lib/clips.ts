@@ -0,0 +1,21 @@
+// Clips are meant for a single moment, not a re-upload of the video
+export const CLIP_MAX_DURATION = 60;
+
+// Length of the range a new clip starts with
+export const CLIP_DEFAULT_DURATION = 5;
+
+// Public link to a clip page
+export function getClipShareUrl(clipId: number): string {
+  return `${window.location.origin}/clip/${clipId}`;
+}
+
+// Why a range can't be published, or null if it's fine
+export function validateClipRange(start: number, end: number): string | null {
+  if (end <= start) {
+    return "The out point must come after the in point.";
+  }
+  if (end - start > CLIP_MAX_DURATION) {
+    return `Clips can be at most ${CLIP_MAX_DURATION} seconds long.`;
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+// Embedding a video on another site
+//
+//   <iframe src="https://<host>/embed/42?autoplay=1&t=30" ...></iframe>
+//
+// The /embed/:id page accepts the watch page's ?t= / ?start=&end= offsets
+// plus ?autoplay=1 (starts muted if the browser blocks sound).
+//
+// The parent page controls the player with window.postMessage:
+//
+//   iframe.contentWindow.postMessage({ type: 'gorillaflix:command', command: 'seek', value: 90 }, '*');
+//
+// Commands: play, pause, seek (value: seconds), setVolume (value: 0-1),
+// mute, unmute, getState.
+//
+// The player posts { type: 'gorillaflix:event', event, state } back to the
+// parent for: ready, play, pause, seeked, timeupdate, volumechange, ended,
+// and state (the reply to getState).
+
+export const EMBED_COMMAND_TYPE = "gorillaflix:command";
+export const EMBED_EVENT_TYPE = "gorillaflix:event";
+
+export type EmbedCommand =
+  | { type: typeof EMBED_COMMAND_TYPE; command: "play" | "pause" | "mute" | "unmute" | "getState" }
+  | { type: typeof EMBED_COMMAND_TYPE; command: "seek" | "setVolume"; value: number };
+
+export type EmbedEventName =
+  | "ready"
+  | "play"
+  | "pause"
+  | "seeked"
+  | "timeupdate"
+  | "volumechange"
+  | "ended"
+  | "state";
+
+export type EmbedPlayerState = {
+  videoId: number;
+  currentTime: number;
+  duration: number;
+  paused: boolean;
+  ended: boolean;
+  muted: boolean;
+  volume: number;
+};
+
+export type EmbedEvent = {
+  type: typeof EMBED_EVENT_TYPE;
+  event: EmbedEventName;
+  state: EmbedPlayerState;
+};
+
+// Frame sizes offered in the share dialog
+export const embedSizes = [
+  { width: 560, height: 315 },
+  { width: 640, height: 360 },
+  { width: 853, height: 480 },
+  { width: 1280, height: 720 },
+];
+
+export function isEmbedCommand(data: unknown): data is EmbedCommand {
+  return typeof data === "object" && data !== null
+    && (data as { type?: unknown }).type === EMBED_COMMAND_TYPE
+    && typeof (data as { command?: unknown }).command === "string";
+}
+
+// The <iframe> snippet for a video
+export function getEmbedSnippet(
+  videoId: number,
+  options: { width: number; height: number; autoplay: boolean; startTime?: number | null }
+): string {
+  const params = new URLSearchParams();
+  if (options.autoplay) params.set("autoplay", "1");
+  if (options.startTime) params.set("t", String(Math.floor(options.startTime)));
+  const query = params.toString();
+  const src = `${window.location.origin}/embed/${videoId}${query ? `?${query}` : ""}`;
+
+  return `<iframe width="${options.width}" height="${options.height}" src="${src}" title="GorillaFlix video player" frameborder="0" allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>`;
+}
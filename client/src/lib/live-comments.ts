@@ -0,0 +1,51 @@
+import { LiveComment, LiveCommentDensity } from "../types";
+
+// Seconds a comment takes to cross the player
+export const LIVE_COMMENT_DURATION = 8;
+
+export const LIVE_COMMENT_MAX_LENGTH = 80;
+
+// Rows of text used, and how many comments may be on screen at once
+export const liveCommentDensities: Record<LiveCommentDensity, { label: string; lanes: number; maxVisible: number }> = {
+  low: { label: 'Low', lanes: 3, maxVisible: 6 },
+  medium: { label: 'Medium', lanes: 6, maxVisible: 15 },
+  high: { label: 'High', lanes: 10, maxVisible: 40 },
+};
+
+// Comments that should be on screen at a playback position, oldest first
+export function getVisibleLiveComments(
+  comments: LiveComment[],
+  time: number,
+  density: LiveCommentDensity,
+  hiddenIds: Set<number>
+): LiveComment[] {
+  const visible = comments
+    .filter(comment =>
+      !hiddenIds.has(comment.id) &&
+      comment.timestamp <= time &&
+      time - comment.timestamp < LIVE_COMMENT_DURATION
+    )
+    .sort((a, b) => a.timestamp - b.timestamp || a.id - b.id);
+  
+  // Busy moments drop the oldest comments first
+  return visible.slice(-liveCommentDensities[density].maxVisible);
+}
+
+const HIDDEN_STORAGE_KEY = 'gorillaflix:hidden-live-comments';
+
+export function getHiddenLiveCommentIds(): Set<number> {
+  try {
+    const stored = localStorage.getItem(HIDDEN_STORAGE_KEY);
+    return new Set(stored ? JSON.parse(stored) : []);
+  } catch {
+    return new Set();
+  }
+}
+
+export function saveHiddenLiveCommentIds(ids: Set<number>) {
+  try {
+    localStorage.setItem(HIDDEN_STORAGE_KEY, JSON.stringify(Array.from(ids)));
+  } catch {
+    // Storage can be unavailable in private browsing; hidden comments come back next visit
+  }
+}
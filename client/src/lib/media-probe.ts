@@ -0,0 +1,472 @@
+import { formatDuration, formatQualityLabel } from './video-utils';
+
+// Read a video file's basic properties in the browser before it's uploaded,
+// so unplayable formats are caught before spending minutes on the upload.
+
+export type MediaProbe = {
+  duration: number | null; // Seconds
+  width: number | null;
+  height: number | null;
+  frameRate: number | null;
+  container: string | null;
+  videoCodec: string | null;
+  audioCodec: string | null;
+};
+
+// What the server's transcoder accepts
+const SUPPORTED_CONTAINERS = ['mp4', 'mov', 'webm', 'mkv'];
+const SUPPORTED_VIDEO_CODECS = ['h264', 'hevc', 'vp8', 'vp9', 'av1', 'mpeg4', 'prores'];
+const SUPPORTED_AUDIO_CODECS = ['aac', 'mp3', 'opus', 'vorbis', 'ac3', 'eac3', 'pcm', 'flac'];
+
+const codecLabels: Record<string, string> = {
+  h264: 'H.264',
+  hevc: 'HEVC',
+  vp8: 'VP8',
+  vp9: 'VP9',
+  av1: 'AV1',
+  mpeg4: 'MPEG-4',
+  prores: 'ProRes',
+  aac: 'AAC',
+  mp3: 'MP3',
+  opus: 'Opus',
+  vorbis: 'Vorbis',
+  ac3: 'AC-3',
+  eac3: 'E-AC-3',
+  pcm: 'PCM',
+  flac: 'FLAC',
+  mpeg2: 'MPEG-2',
+  wmv: 'WMV',
+  vc1: 'VC-1',
+  theora: 'Theora',
+  realvideo: 'RealVideo',
+  mjpeg: 'Motion JPEG',
+  dts: 'DTS',
+  truehd: 'Dolby TrueHD',
+  wma: 'WMA',
+  realaudio: 'RealAudio',
+  amr: 'AMR',
+};
+
+const containersByType: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'video/x-matroska': 'mkv',
+  'video/x-msvideo': 'avi',
+  'video/x-flv': 'flv',
+  'video/x-ms-wmv': 'wmv',
+};
+
+// Sample entry types in an MP4/MOV stsd box, supported or not, so the codec
+// checks can name what's wrong. Anything else is left unidentified
+const mp4SampleEntries: Record<string, string> = {
+  avc1: 'h264', avc3: 'h264',
+  hvc1: 'hevc', hev1: 'hevc',
+  av01: 'av1',
+  vp08: 'vp8',
+  vp09: 'vp9',
+  mp4v: 'mpeg4',
+  apch: 'prores', apcn: 'prores', apcs: 'prores', apco: 'prores', ap4h: 'prores', ap4x: 'prores',
+  mp4a: 'aac',
+  '.mp3': 'mp3',
+  Opus: 'opus',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+  fLaC: 'flac',
+  lpcm: 'pcm', ipcm: 'pcm', fpcm: 'pcm', sowt: 'pcm', twos: 'pcm', in24: 'pcm', in32: 'pcm', fl32: 'pcm', fl64: 'pcm',
+  mp2v: 'mpeg2', m2v1: 'mpeg2',
+  mjpa: 'mjpeg', mjpb: 'mjpeg', jpeg: 'mjpeg',
+  dtsc: 'dts', dtsh: 'dts', dtsl: 'dts', dtse: 'dts',
+  mlpa: 'truehd',
+  samr: 'amr', sawb: 'amr',
+};
+
+// Matroska/WebM CodecIDs; an id also covers its variants, e.g. A_AAC/MPEG4/LC or A_PCM/INT/LIT
+const matroskaCodecIds: Record<string, string> = {
+  'V_MPEG4/ISO/AVC': 'h264',
+  'V_MPEGH/ISO/HEVC': 'hevc',
+  'V_VP8': 'vp8',
+  'V_VP9': 'vp9',
+  'V_AV1': 'av1',
+  'V_MPEG4/ISO/SP': 'mpeg4',
+  'V_MPEG4/ISO/ASP': 'mpeg4',
+  'V_PRORES': 'prores',
+  'A_AAC': 'aac',
+  'A_MPEG/L3': 'mp3',
+  'A_OPUS': 'opus',
+  'A_VORBIS': 'vorbis',
+  'A_AC3': 'ac3',
+  'A_EAC3': 'eac3',
+  'A_FLAC': 'flac',
+  'A_PCM': 'pcm',
+  'V_MPEG2': 'mpeg2',
+  'V_THEORA': 'theora',
+  'V_REAL': 'realvideo',
+  'V_MJPEG': 'mjpeg',
+  'A_DTS': 'dts',
+  'A_TRUEHD': 'truehd',
+  'A_REAL': 'realaudio',
+};
+
+// Matroska's Video for Windows and ACM compatibility tracks name their codec in
+// CodecPrivate: a BITMAPINFOHEADER compression fourcc, or a WAVEFORMATEX format tag
+const vfwFourCCs: Record<string, string> = {
+  WMV1: 'wmv', WMV2: 'wmv', WMV3: 'wmv',
+  WVC1: 'vc1',
+  H264: 'h264', AVC1: 'h264',
+  XVID: 'mpeg4', DIVX: 'mpeg4', DX50: 'mpeg4', FMP4: 'mpeg4',
+  MJPG: 'mjpeg',
+};
+
+const acmFormatTags: Record<number, string> = {
+  0x0001: 'pcm', 0x0003: 'pcm',
+  0x0055: 'mp3',
+  0x0161: 'wma', 0x0162: 'wma', 0x0163: 'wma',
+  0x2000: 'ac3',
+  0x2001: 'dts',
+};
+
+// Matroska element ids used to find the track list
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const TRACKS_ID = 0x1654ae6b;
+const TRACK_ENTRY_ID = 0xae;
+const TRACK_TYPE_ID = 0x83;
+const CODEC_ID_ID = 0x86;
+const CODEC_PRIVATE_ID = 0x63a2;
+const CLUSTER_ID = 0x1f43b675;
+
+// Matroska puts its track list at the start of the file, before any media
+const HEADER_SCAN_BYTES = 4 * 1024 * 1024;
+
+// An MP4's moov box holds the track list. It's at the end of files that weren't
+// written for streaming, so the boxes before it are skipped using their headers
+const MAX_TOP_LEVEL_BOXES = 32;
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+
+// Frames to time when working out the frame rate
+const FRAME_RATE_SAMPLES = 12;
+
+// Files the browser can't decode may never load or fail; stop waiting and leave them to the server
+const METADATA_TIMEOUT_MS = 10000;
+
+type TrackCodecs = { videoCodec: string | null; audioCodec: string | null };
+
+// A box or element's content, as offsets into the bytes it was read from
+type Span = { type: string | number; start: number; end: number };
+
+export function getCodecLabel(codec: string): string {
+  return codecLabels[codec] || codec.toUpperCase();
+}
+
+function getContainer(file: File): string | null {
+  if (containersByType[file.type]) {
+    return containersByType[file.type];
+  }
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  return extension && extension !== file.name.toLowerCase() ? extension : null;
+}
+
+async function readBytes(file: File, start: number, length: number): Promise<DataView> {
+  return new DataView(await file.slice(start, start + length).arrayBuffer());
+}
+
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+// Size and type of the MP4 box at `offset`; a 64-bit size follows the type when the 32-bit one is 1
+function readBoxHeader(view: DataView, offset: number, remaining: number) {
+  const type = readFourCC(view, offset + 4);
+  let size = view.getUint32(offset);
+  let headerSize = 8;
+  if (size === 1) {
+    size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+    headerSize = 16;
+  } else if (size === 0) {
+    // Runs to the end of the file
+    size = remaining;
+  }
+  return { type, size, headerSize };
+}
+
+// MP4 boxes directly inside view[start, end)
+function readBoxes(view: DataView, start: number, end: number): Span[] {
+  const boxes: Span[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const { type, size, headerSize } = readBoxHeader(view, offset, end - offset);
+    if (size < headerSize) break;
+    boxes.push({ type, start: offset + headerSize, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(view: DataView, parent: Span, path: string[]): Span | null {
+  let box: Span | null = parent;
+  for (const type of path) {
+    box = readBoxes(view, box.start, box.end).find(child => child.type === type) ?? null;
+    if (!box) return null;
+  }
+  return box;
+}
+
+// Contents of the top-level moov box, or null if there isn't a usable one
+async function readMoovBox(file: File): Promise<DataView | null> {
+  let offset = 0;
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && offset + 8 <= file.size; i++) {
+    const header = await readBytes(file, offset, 16);
+    const { type, size, headerSize } = readBoxHeader(header, 0, file.size - offset);
+    if (size < headerSize) return null;
+
+    if (type === 'moov') {
+      return size <= MAX_MOOV_BYTES ? readBytes(file, offset + headerSize, size - headerSize) : null;
+    }
+    offset += size;
+  }
+  return null;
+}
+
+async function detectMp4Codecs(file: File): Promise<TrackCodecs> {
+  const codecs: TrackCodecs = { videoCodec: null, audioCodec: null };
+  const moov = await readMoovBox(file);
+  if (!moov) return codecs;
+
+  const traks = readBoxes(moov, 0, moov.byteLength).filter(box => box.type === 'trak');
+  for (const trak of traks) {
+    const hdlr = findBox(moov, trak, ['mdia', 'hdlr']);
+    const stsd = findBox(moov, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+    if (!hdlr || !stsd || hdlr.end - hdlr.start < 12 || stsd.end - stsd.start < 16) continue;
+
+    // hdlr: version/flags, pre_defined, then the handler type.
+    // stsd: version/flags, entry count, then the first entry's size and type
+    const handler = readFourCC(moov, hdlr.start + 8);
+    const codec = mp4SampleEntries[readFourCC(moov, stsd.start + 12)] ?? null;
+    if (handler === 'vide' && !codecs.videoCodec) {
+      codecs.videoCodec = codec;
+    } else if (handler === 'soun' && !codecs.audioCodec) {
+      codecs.audioCodec = codec;
+    }
+  }
+  return codecs;
+}
+
+// EBML variable-length integer. Element ids keep their length marker, sizes don't
+function readVint(view: DataView, offset: number, keepMarker: boolean) {
+  const first = view.getUint8(offset);
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+    length++;
+  }
+  if (length > 8) {
+    throw new Error('Invalid EBML integer');
+  }
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + view.getUint8(offset + i);
+  }
+  return { value, length, allOnes: !keepMarker && value === 2 ** (7 * length) - 1 };
+}
+
+// Matroska elements directly inside view[start, end), stopping at the media clusters
+function readElements(view: DataView, start: number, end: number): Span[] {
+  const elements: Span[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(view, offset, true);
+    const size = readVint(view, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    // An unknown size (all ones) runs to the end of the parent
+    const dataEnd = size.allOnes ? end : Math.min(dataStart + size.value, end);
+    if (id.value === CLUSTER_ID) break;
+
+    elements.push({ type: id.value, start: dataStart, end: dataEnd });
+    offset = dataEnd;
+  }
+  return elements;
+}
+
+function getMatroskaCodec(codecId: string): string | null {
+  if (matroskaCodecIds[codecId]) {
+    return matroskaCodecIds[codecId];
+  }
+  const family = Object.keys(matroskaCodecIds).find(id => codecId.startsWith(`${id}/`));
+  return family ? matroskaCodecIds[family] : null;
+}
+
+function getCompatibilityCodec(codecId: string, view: DataView, codecPrivate: Span | undefined): string | null {
+  if (!codecPrivate) return null;
+
+  const length = codecPrivate.end - codecPrivate.start;
+  if (codecId === 'V_MS/VFW/FOURCC' && length >= 20) {
+    return vfwFourCCs[readFourCC(view, codecPrivate.start + 16).toUpperCase()] ?? null;
+  }
+  if (codecId === 'A_MS/ACM' && length >= 2) {
+    return acmFormatTags[view.getUint16(codecPrivate.start, true)] ?? null;
+  }
+  return null;
+}
+
+async function detectMatroskaCodecs(file: File): Promise<TrackCodecs> {
+  const codecs: TrackCodecs = { videoCodec: null, audioCodec: null };
+  const view = await readBytes(file, 0, HEADER_SCAN_BYTES);
+
+  const segment = readElements(view, 0, view.byteLength).find(element => element.type === SEGMENT_ID);
+  const tracks = segment && readElements(view, segment.start, segment.end).find(element => element.type === TRACKS_ID);
+  if (!tracks) return codecs;
+
+  const entries = readElements(view, tracks.start, tracks.end).filter(element => element.type === TRACK_ENTRY_ID);
+  for (const entry of entries) {
+    const fields = readElements(view, entry.start, entry.end);
+    const trackType = fields.find(field => field.type === TRACK_TYPE_ID);
+    const codecId = fields.find(field => field.type === CODEC_ID_ID);
+    if (!trackType || !codecId || trackType.end <= trackType.start) continue;
+
+    // TrackType is a one-byte number: 1 for video, 2 for audio
+    const kind = view.getUint8(trackType.end - 1);
+    const id = new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + codecId.start, codecId.end - codecId.start));
+    const codecPrivate = fields.find(field => field.type === CODEC_PRIVATE_ID);
+    const trimmedId = id.replace(/\0+$/, '');
+    const codec = getMatroskaCodec(trimmedId) ?? getCompatibilityCodec(trimmedId, view, codecPrivate);
+    if (kind === 1 && !codecs.videoCodec) {
+      codecs.videoCodec = codec;
+    } else if (kind === 2 && !codecs.audioCodec) {
+      codecs.audioCodec = codec;
+    }
+  }
+  return codecs;
+}
+
+// Read the codecs from the file's own track list, going by its first bytes rather
+// than its name. Formats that are neither Matroska nor MP4 come back unidentified
+async function detectCodecs(file: File): Promise<TrackCodecs> {
+  const magic = await readBytes(file, 0, 4);
+  if (magic.byteLength === 4 && magic.getUint32(0) === EBML_ID) {
+    return detectMatroskaCodecs(file);
+  }
+  return detectMp4Codecs(file);
+}
+
+// Time a handful of decoded frames; falls back to null where the browser
+// can't report per-frame timing
+function measureFrameRate(video: HTMLVideoElement): Promise<number | null> {
+  if (!('requestVideoFrameCallback' in video)) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    const mediaTimes: number[] = [];
+    const timeout = setTimeout(() => finish(), 3000);
+
+    const finish = () => {
+      clearTimeout(timeout);
+      video.pause();
+
+      const intervals = mediaTimes.slice(1)
+        .map((time, index) => time - mediaTimes[index])
+        .filter(interval => interval > 0)
+        .sort((a, b) => a - b);
+      if (intervals.length === 0) {
+        resolve(null);
+        return;
+      }
+
+      // The median ignores frames the browser dropped while sampling
+      const median = intervals[Math.floor(intervals.length / 2)];
+      resolve(Math.round(1 / median));
+    };
+
+    const onFrame = (_now: number, metadata: { mediaTime: number }) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= FRAME_RATE_SAMPLES) {
+        finish();
+      } else {
+        video.requestVideoFrameCallback(onFrame);
+      }
+    };
+
+    video.requestVideoFrameCallback(onFrame);
+    video.play().catch(() => finish());
+  });
+}
+
+async function probeElement(file: File): Promise<Pick<MediaProbe, 'duration' | 'width' | 'height' | 'frameRate'>> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'metadata';
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Timed out reading the video')), METADATA_TIMEOUT_MS);
+      video.addEventListener('loadedmetadata', () => {
+        clearTimeout(timeout);
+        resolve();
+      }, { once: true });
+      video.addEventListener('error', () => {
+        clearTimeout(timeout);
+        reject(new Error('Unreadable video'));
+      }, { once: true });
+      video.src = url;
+    });
+
+    return {
+      duration: Number.isFinite(video.duration) ? video.duration : null,
+      width: video.videoWidth || null,
+      height: video.videoHeight || null,
+      frameRate: await measureFrameRate(video),
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function probeVideoFile(file: File): Promise<MediaProbe> {
+  const [codecs, element] = await Promise.all([
+    detectCodecs(file).catch(() => ({ videoCodec: null, audioCodec: null })),
+    // The browser may not decode a format the server can still transcode, so this can come back empty
+    probeElement(file).catch(() => ({ duration: null, width: null, height: null, frameRate: null })),
+  ]);
+
+  return { ...element, ...codecs, container: getContainer(file) };
+}
+
+// One-line summary for the upload form, e.g. "1080p · 60 fps · 3:24 · MP4 (H.264/AAC)"
+export function describeMediaProbe(probe: MediaProbe): string {
+  const codecs = [probe.videoCodec, probe.audioCodec]
+    .filter((codec): codec is string => !!codec)
+    .map(getCodecLabel)
+    .join('/');
+
+  return [
+    probe.height && formatQualityLabel(probe.height),
+    probe.frameRate && `${probe.frameRate} fps`,
+    probe.duration !== null && formatDuration(probe.duration),
+    probe.container && `${probe.container.toUpperCase()}${codecs ? ` (${codecs})` : ''}`,
+  ].filter(Boolean).join(' · ');
+}
+
+// Why the server can't take this file, or null if it looks fine.
+// Anything the browser couldn't identify is left for the server to decide.
+export function getUnsupportedReason(probe: MediaProbe): string | null {
+  if (probe.container && !SUPPORTED_CONTAINERS.includes(probe.container)) {
+    return `${probe.container.toUpperCase()} files aren't supported. Use MP4, MOV, MKV or WebM.`;
+  }
+  if (probe.videoCodec && !SUPPORTED_VIDEO_CODECS.includes(probe.videoCodec)) {
+    return `${getCodecLabel(probe.videoCodec)} video isn't supported. Export as H.264, HEVC, VP9 or AV1.`;
+  }
+  if (probe.audioCodec && !SUPPORTED_AUDIO_CODECS.includes(probe.audioCodec)) {
+    return `${getCodecLabel(probe.audioCodec)} audio isn't supported. Export with AAC or Opus audio.`;
+  }
+  return null;
+}
@@ -0,0 +1,12 @@
+// Native Picture-in-Picture, where the browser supports it
+export function isPictureInPictureSupported(): boolean {
+  return typeof document !== 'undefined' && !!document.pictureInPictureEnabled;
+}
+
+export async function togglePictureInPicture(videoElement: HTMLVideoElement) {
+  if (document.pictureInPictureElement === videoElement) {
+    await document.exitPictureInPicture();
+  } else {
+    await videoElement.requestPictureInPicture();
+  }
+}
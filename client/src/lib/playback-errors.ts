@@ -0,0 +1,48 @@
+export type PlaybackErrorKind = 'network' | 'decode' | 'unsupported' | 'unknown';
+
+export interface PlaybackFailure {
+  kind: PlaybackErrorKind;
+  message: string;
+  code: number | null; // MediaError code, when the element raised one
+}
+
+// Automatic retries before giving up and showing the error
+export const MAX_PLAYBACK_RETRIES = 4;
+
+// 1s, 2s, 4s, 8s...
+export function getRetryDelay(attempt: number): number {
+  return Math.min(1000 * 2 ** attempt, 15000);
+}
+
+// Map the element's MediaError onto what we tell the viewer
+export function classifyMediaError(error: MediaError | null): PlaybackErrorKind {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_NETWORK:
+      return 'network';
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'decode';
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return 'unsupported';
+    default:
+      return 'unknown';
+  }
+}
+
+export const playbackErrorMessages: Record<PlaybackErrorKind, { title: string; description: string }> = {
+  network: {
+    title: 'Connection problem',
+    description: "We couldn't load the video. Check your connection and try again.",
+  },
+  decode: {
+    title: "This video couldn't be played",
+    description: 'The video data is damaged or your device could not decode it.',
+  },
+  unsupported: {
+    title: 'Format not supported',
+    description: "Your browser can't play this video's format.",
+  },
+  unknown: {
+    title: 'Playback error',
+    description: 'Something went wrong while playing this video.',
+  },
+};
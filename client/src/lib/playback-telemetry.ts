@@ -0,0 +1,40 @@
+import { PlaybackSessionReport } from "../types";
+
+const INGEST_URL = "/api/telemetry/playback";
+
+// Reports are held back and sent together, once enough have piled up or
+// the page is going away
+const BATCH_SIZE = 10;
+
+let pendingReports: PlaybackSessionReport[] = [];
+
+export function createSessionId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function queuePlaybackReport(report: PlaybackSessionReport) {
+  pendingReports.push(report);
+  if (pendingReports.length >= BATCH_SIZE) {
+    flushPlaybackReports();
+  }
+}
+
+// sendBeacon survives page unload, which is exactly when most sessions end
+export function flushPlaybackReports() {
+  if (pendingReports.length === 0) return;
+  
+  const body = new Blob([JSON.stringify({ sessions: pendingReports })], { type: "application/json" });
+  pendingReports = [];
+  
+  if (typeof navigator.sendBeacon === "function" && navigator.sendBeacon(INGEST_URL, body)) {
+    return;
+  }
+  
+  // Beacon unavailable or its queue is full
+  fetch(INGEST_URL, { method: "POST", body, keepalive: true, credentials: "include" }).catch(() => {
+    // Telemetry is best effort
+  });
+}
@@ -0,0 +1,44 @@
+import { PlaylistRepeatMode } from "../types";
+
+// Fisher-Yates shuffle of a playlist's video ids, keeping the current one first
+export function shuffleOrder(videoIds: number[], currentId: number | null): number[] {
+  const rest = videoIds.filter(id => id !== currentId);
+  
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  
+  return currentId !== null && videoIds.includes(currentId) ? [currentId, ...rest] : rest;
+}
+
+// Id of the video after the current one, honouring repeat, or null at the end
+export function getNextPlaylistVideoId(
+  order: number[],
+  currentId: number,
+  repeat: PlaylistRepeatMode
+): number | null {
+  if (order.length === 0) {
+    return null;
+  }
+  
+  if (repeat === 'one') {
+    return currentId;
+  }
+  
+  const index = order.indexOf(currentId);
+  if (index === -1) {
+    return order[0];
+  }
+  
+  if (index < order.length - 1) {
+    return order[index + 1];
+  }
+  
+  return repeat === 'all' ? order[0] : null;
+}
+
+// Watch page URL that stays in playlist mode
+export function getPlaylistWatchUrl(videoId: number, playlistId: number): string {
+  return `/watch/${videoId}?list=${playlistId}`;
+}
@@ -0,0 +1,19 @@
+// Uploads don't record their frame rate, so frame steps assume 30fps,
+// which is what most Gorilla Tag recordings use
+export const PRACTICE_FRAME_RATE = 30;
+
+// Quick speeds offered in practice mode
+export const practiceRates = [0.25, 0.5, 1];
+
+export const MAX_ZOOM = 4;
+export const ZOOM_STEP = 0.5;
+
+// A-B loop markers, in seconds; either may be unset
+export type LoopRange = {
+  a: number | null;
+  b: number | null;
+};
+
+export function isLoopActive(loop: LoopRange): loop is { a: number; b: number } {
+  return loop.a !== null && loop.b !== null && loop.b > loop.a;
+}
@@ -0,0 +1,24 @@
+// Orientation lock, where the browser supports it. It only works in fullscreen,
+// and iOS Safari doesn't offer it at all.
+type LockableScreenOrientation = ScreenOrientation & {
+  lock?: (orientation: 'landscape' | 'portrait') => Promise<void>;
+};
+
+export async function lockOrientation(orientation: 'landscape' | 'portrait') {
+  const screenOrientation = screen.orientation as LockableScreenOrientation | undefined;
+  if (!screenOrientation?.lock) return;
+
+  try {
+    await screenOrientation.lock(orientation);
+  } catch {
+    // Refused (e.g. on desktop); the viewer can still rotate by hand
+  }
+}
+
+export function unlockOrientation() {
+  try {
+    screen.orientation?.unlock();
+  } catch {
+    // Nothing was locked
+  }
+}
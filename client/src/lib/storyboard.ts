@@ -0,0 +1,126 @@
+import { StoryboardFrame } from "../types";
+import { canvasToFile, seekVideo, withVideoFile } from "./thumbnails";
+
+// WebVTT cue timing, e.g. "00:01:05.000 --> 00:01:10.000"
+const CUE_TIMING = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/;
+
+// Generated storyboards: small frames tiled into sprite sheets, at most
+// MAX_FRAMES of them however long the video is
+const FRAME_WIDTH = 160;
+const SHEET_COLUMNS = 10;
+const SHEET_ROWS = 10;
+const MIN_FRAME_INTERVAL = 2; // Seconds
+const MAX_FRAMES = 300;
+
+export type GeneratedStoryboard = {
+  index: File;
+  sprites: File[];
+};
+
+function parseVttTime(time: string): number {
+  const parts = time.split(':').map(parseFloat);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// Parse a WebVTT thumbnails index whose cues point at sprite regions,
+// e.g. "storyboard-0.jpg#xywh=160,0,160,90"
+export function parseStoryboardVtt(vtt: string, indexUrl: string): StoryboardFrame[] {
+  const frames: StoryboardFrame[] = [];
+  const lines = vtt.replace(/\r\n?/g, '\n').split('\n');
+  
+  for (let i = 0; i < lines.length; i++) {
+    const timing = lines[i].match(CUE_TIMING);
+    if (!timing) continue;
+    
+    const target = (lines[i + 1] || '').trim();
+    const [imagePath, fragment = ''] = target.split('#xywh=');
+    const [x, y, width, height] = fragment.split(',').map(Number);
+    if (!imagePath || [x, y, width, height].some(isNaN)) continue;
+    
+    frames.push({
+      start: parseVttTime(timing[1]),
+      end: parseVttTime(timing[2]),
+      // Sprite paths are relative to the index file
+      url: new URL(imagePath, new URL(indexUrl, window.location.href)).toString(),
+      x,
+      y,
+      width,
+      height,
+    });
+  }
+  
+  return frames;
+}
+
+// Frame covering a given time, falling back to the nearest earlier one
+export function getStoryboardFrameAt(frames: StoryboardFrame[], time: number): StoryboardFrame | null {
+  let match: StoryboardFrame | null = null;
+  
+  for (const frame of frames) {
+    if (frame.start > time) break;
+    match = frame;
+  }
+  
+  return match;
+}
+
+function formatVttTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+}
+
+// Build the sprite sheets and their WebVTT index from a video file before it's
+// uploaded, in the format parseStoryboardVtt reads. Sprites are named
+// storyboard-N.jpg and referenced relative to the index
+export function generateStoryboard(videoFile: File): Promise<GeneratedStoryboard> {
+  return withVideoFile(videoFile, async video => {
+    const duration = video.duration;
+    const interval = Math.max(MIN_FRAME_INTERVAL, duration / MAX_FRAMES);
+    const frameCount = Math.max(1, Math.ceil(duration / interval));
+    const frameHeight = Math.round(FRAME_WIDTH * (video.videoHeight / video.videoWidth)) || Math.round(FRAME_WIDTH * 9 / 16);
+    const framesPerSheet = SHEET_COLUMNS * SHEET_ROWS;
+
+    const sprites: File[] = [];
+    const cues: string[] = [];
+    let canvas: HTMLCanvasElement | null = null;
+    let context: CanvasRenderingContext2D | null = null;
+
+    for (let i = 0; i < frameCount; i++) {
+      const sheet = Math.floor(i / framesPerSheet);
+      const slot = i % framesPerSheet;
+
+      if (slot === 0) {
+        const rows = Math.min(SHEET_ROWS, Math.ceil((frameCount - i) / SHEET_COLUMNS));
+        canvas = document.createElement('canvas');
+        canvas.width = FRAME_WIDTH * SHEET_COLUMNS;
+        canvas.height = frameHeight * rows;
+        context = canvas.getContext('2d');
+      }
+
+      // Sample the middle of each cue so it shows what the range is about
+      const start = i * interval;
+      const end = Math.min(start + interval, duration);
+      await seekVideo(video, Math.max(0, Math.min((start + end) / 2, duration - 0.1)));
+
+      const x = (slot % SHEET_COLUMNS) * FRAME_WIDTH;
+      const y = Math.floor(slot / SHEET_COLUMNS) * frameHeight;
+      context?.drawImage(video, x, y, FRAME_WIDTH, frameHeight);
+      cues.push(`${formatVttTime(start)} --> ${formatVttTime(end)}\nstoryboard-${sheet}.jpg#xywh=${x},${y},${FRAME_WIDTH},${frameHeight}`);
+
+      if (canvas && (slot === framesPerSheet - 1 || i === frameCount - 1)) {
+        sprites.push(await canvasToFile(canvas, `storyboard-${sheet}.jpg`));
+      }
+    }
+
+    const vtt = ['WEBVTT', ...cues].join('\n\n') + '\n';
+    return {
+      index: new File([vtt], 'storyboard.vtt', { type: 'text/vtt' }),
+      sprites,
+    };
+  });
+}
@@ -0,0 +1,144 @@
+// Thumbnails are 16:9, the same shape MovieCard shows them in
+export const THUMBNAIL_ASPECT_RATIO = 16 / 9;
+const THUMBNAIL_WIDTH = 1280;
+const THUMBNAIL_HEIGHT = THUMBNAIL_WIDTH / THUMBNAIL_ASPECT_RATIO;
+
+export const CANDIDATE_FRAME_COUNT = 6;
+
+// Some files never finish loading or seeking in the browser (a codec it can't
+// decode, a broken index); give up rather than leave the picker spinning
+const LOAD_TIMEOUT_MS = 15000;
+const SEEK_TIMEOUT_MS = 5000;
+
+export type CandidateFrame = {
+  time: number;
+  file: File;
+};
+
+// Scale and centre-crop an image or video frame to fill the thumbnail
+function drawThumbnail(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+
+  const scale = Math.max(THUMBNAIL_WIDTH / width, THUMBNAIL_HEIGHT / height);
+  const cropWidth = THUMBNAIL_WIDTH / scale;
+  const cropHeight = THUMBNAIL_HEIGHT / scale;
+
+  const context = canvas.getContext('2d');
+  context?.drawImage(
+    source,
+    (width - cropWidth) / 2,
+    (height - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    0,
+    0,
+    THUMBNAIL_WIDTH,
+    THUMBNAIL_HEIGHT
+  );
+  return canvas;
+}
+
+export function canvasToFile(canvas: HTMLCanvasElement, name: string): Promise<File> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(new File([blob], name, { type: 'image/jpeg' }));
+      } else {
+        reject(new Error('Could not create image'));
+      }
+    }, 'image/jpeg', 0.9);
+  });
+}
+
+export function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      video.removeEventListener('seeked', handleSeeked);
+      reject(new Error('Timed out seeking the video'));
+    }, SEEK_TIMEOUT_MS);
+    const handleSeeked = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+
+    video.addEventListener('seeked', handleSeeked, { once: true });
+    video.currentTime = time;
+  });
+}
+
+// Whatever frame the video is showing right now
+export function captureVideoFrame(video: HTMLVideoElement): Promise<File> {
+  const canvas = drawThumbnail(video, video.videoWidth, video.videoHeight);
+  return canvasToFile(canvas, `frame-${Math.round(video.currentTime * 1000)}.jpg`);
+}
+
+// Load a video file into a detached element for reading frames from,
+// releasing it once `read` is done
+export async function withVideoFile<T>(videoFile: File, read: (video: HTMLVideoElement) => Promise<T>): Promise<T> {
+  const url = URL.createObjectURL(videoFile);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Timed out reading the video')), LOAD_TIMEOUT_MS);
+      video.addEventListener('loadeddata', () => {
+        clearTimeout(timeout);
+        resolve();
+      }, { once: true });
+      video.addEventListener('error', () => {
+        clearTimeout(timeout);
+        reject(new Error('This browser cannot read frames from the video'));
+      }, { once: true });
+      video.src = url;
+    });
+
+    // Some recordings don't say how long they are, so there's nowhere to seek to
+    if (!Number.isFinite(video.duration)) {
+      throw new Error('Could not read the length of the video');
+    }
+
+    return await read(video);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Frames spread evenly through the video, skipping the very start and end,
+// which are often black
+export function extractCandidateFrames(videoFile: File, count = CANDIDATE_FRAME_COUNT): Promise<CandidateFrame[]> {
+  return withVideoFile(videoFile, async video => {
+    const frames: CandidateFrame[] = [];
+    for (let i = 1; i <= count; i++) {
+      const time = (video.duration * i) / (count + 1);
+      await seekVideo(video, time);
+      frames.push({ time, file: await captureVideoFrame(video) });
+    }
+    return frames;
+  });
+}
+
+// Custom images get the same crop as frames
+export async function cropImageToThumbnail(imageFile: File): Promise<File> {
+  const url = URL.createObjectURL(imageFile);
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Could not read that image'));
+      image.src = url;
+    });
+
+    const canvas = drawThumbnail(image, image.naturalWidth, image.naturalHeight);
+    return canvasToFile(canvas, imageFile.name.replace(/\.[^.]+$/, '') + '.jpg');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
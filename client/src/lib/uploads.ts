@@ -0,0 +1,282 @@
+// Resumable video uploads over the tus protocol (https://tus.io/protocols/resumable-upload).
+// The file goes up in chunks; a dropped connection only costs the current chunk,
+// and the upload URL is remembered so picking the same file again after a reload
+// carries on from wherever the server got to.
+
+const UPLOADS_ENDPOINT = '/api/uploads';
+const TUS_VERSION = '1.0.0';
+const STORAGE_KEY = 'gorillaflix:uploads';
+
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// The server drops unfinished uploads after a day
+const UPLOAD_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// Wait before each retry of a failed chunk; the last failure gives up
+const RETRY_DELAYS = [1000, 3000, 5000, 10000, 20000];
+
+// Speed is averaged over this much recent progress, so one slow chunk doesn't swing the ETA
+const SPEED_WINDOW_MS = 5000;
+
+type StoredUpload = {
+  url: string;
+  createdAt: number;
+};
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  }
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+export function formatTimeRemaining(seconds: number): string {
+  if (seconds < 60) {
+    return `${Math.max(1, Math.round(seconds))}s left`;
+  }
+  if (seconds < 60 * 60) {
+    return `${Math.round(seconds / 60)} min left`;
+  }
+  const hours = Math.floor(seconds / 3600);
+  return `${hours} h ${Math.round((seconds % 3600) / 60)} min left`;
+}
+
+// Tracks upload speed from a stream of byte counts
+export function createSpeedMeter() {
+  let samples: { time: number; bytes: number }[] = [];
+
+  // Returns bytes per second, or 0 until there's enough to go on
+  return (bytes: number): number => {
+    const now = Date.now();
+    samples = [...samples.filter(sample => now - sample.time < SPEED_WINDOW_MS), { time: now, bytes }];
+
+    const first = samples[0];
+    const elapsed = (now - first.time) / 1000;
+    return elapsed > 0.5 ? Math.max(0, bytes - first.bytes) / elapsed : 0;
+  };
+}
+
+export function isUploadCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+const cancelledError = () => new DOMException('Upload cancelled', 'AbortError');
+
+// Files can't be reopened after a reload, so the same file is recognised by its details
+function getFingerprint(file: File, userId: number): string {
+  return [userId, file.name, file.size, file.lastModified].join(':');
+}
+
+function readStoredUploads(): Record<string, StoredUpload> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const uploads: Record<string, StoredUpload> = stored ? JSON.parse(stored) : {};
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.entries(uploads).filter(([, upload]) => now - upload.createdAt < UPLOAD_EXPIRY_MS)
+    );
+  } catch {
+    return {};
+  }
+}
+
+function writeStoredUploads(uploads: Record<string, StoredUpload>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads));
+  } catch {
+    // Without storage the upload still works, it just can't survive a reload
+  }
+}
+
+export function hasStoredUpload(file: File, userId: number): boolean {
+  return getFingerprint(file, userId) in readStoredUploads();
+}
+
+function storeUpload(file: File, userId: number, url: string) {
+  writeStoredUploads({ ...readStoredUploads(), [getFingerprint(file, userId)]: { url, createdAt: Date.now() } });
+}
+
+// Call once the video has been created from the upload
+export function forgetStoredUpload(file: File, userId: number) {
+  const uploads = readStoredUploads();
+  delete uploads[getFingerprint(file, userId)];
+  writeStoredUploads(uploads);
+}
+
+// The upload's id is the last segment of its URL, and is what the video form refers to
+function getUploadId(url: string): string {
+  return url.split('/').filter(Boolean).pop() || url;
+}
+
+function encodeMetadataValue(value: string): string {
+  return btoa(unescape(encodeURIComponent(value)));
+}
+
+class UploadRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Network failures and server errors are worth another try; most 4xx are not
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof UploadRequestError) || error.status >= 500 || error.status === 409;
+}
+
+async function createUpload(file: File, signal?: AbortSignal): Promise<string> {
+  const response = await fetch(UPLOADS_ENDPOINT, {
+    method: 'POST',
+    credentials: 'include',
+    signal,
+    headers: {
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': [
+        `filename ${encodeMetadataValue(file.name)}`,
+        `filetype ${encodeMetadataValue(file.type || 'application/octet-stream')}`,
+      ].join(','),
+    },
+  });
+
+  if (response.status === 413) {
+    throw new UploadRequestError('This video is larger than the upload limit', 413);
+  }
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new UploadRequestError('Could not start the upload', response.status);
+  }
+
+  return new URL(location, window.location.origin).toString();
+}
+
+// How much of the upload the server already has, or null if it's gone
+async function getUploadOffset(url: string, signal?: AbortSignal): Promise<number | null> {
+  const response = await fetch(url, {
+    method: 'HEAD',
+    credentials: 'include',
+    signal,
+    headers: { 'Tus-Resumable': TUS_VERSION },
+  });
+
+  if (response.status === 404 || response.status === 410 || response.status === 403) {
+    return null;
+  }
+  const offset = response.headers.get('Upload-Offset');
+  if (!response.ok || offset === null) {
+    throw new UploadRequestError('Could not check the upload', response.status);
+  }
+
+  return parseInt(offset);
+}
+
+// fetch can't report upload progress, so chunks go up with XHR
+function uploadChunk(
+  url: string,
+  offset: number,
+  chunk: Blob,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', url);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader('Tus-Resumable', TUS_VERSION);
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => {
+      const nextOffset = xhr.getResponseHeader('Upload-Offset');
+      if (xhr.status >= 200 && xhr.status < 300 && nextOffset !== null) {
+        resolve(parseInt(nextOffset));
+      } else {
+        reject(new UploadRequestError('Chunk upload failed', xhr.status));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onabort = () => reject(cancelledError());
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.send(chunk);
+  });
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    }, { once: true });
+  });
+}
+
+interface ResumableUploadOptions {
+  userId: number;
+  chunkSize?: number;
+  onProgress?: (uploaded: number, total: number) => void;
+  // Aborting stops the upload; the server keeps what it has, so it can be resumed
+  signal?: AbortSignal;
+}
+
+// Upload a file, resuming an earlier attempt when there is one. Resolves with the upload id.
+export async function uploadFileResumable(
+  file: File,
+  { userId, chunkSize = DEFAULT_CHUNK_SIZE, onProgress, signal }: ResumableUploadOptions
+): Promise<string> {
+  const fingerprint = getFingerprint(file, userId);
+  let url = readStoredUploads()[fingerprint]?.url ?? null;
+  let offset = url ? await getUploadOffset(url, signal) : null;
+
+  // Nothing to resume (or the server let it expire): start over
+  if (url === null || offset === null) {
+    url = await createUpload(file, signal);
+    storeUpload(file, userId, url);
+    offset = 0;
+  }
+
+  onProgress?.(offset, file.size);
+  let failures = 0;
+
+  while (offset < file.size) {
+    const chunkStart = offset;
+    const chunk = file.slice(chunkStart, chunkStart + chunkSize);
+
+    try {
+      offset = await uploadChunk(url, chunkStart, chunk, loaded => {
+        onProgress?.(chunkStart + loaded, file.size);
+      }, signal);
+      failures = 0;
+    } catch (error) {
+      if (isUploadCancelled(error) || !isRetryable(error) || failures >= RETRY_DELAYS.length) {
+        throw error;
+      }
+      await wait(RETRY_DELAYS[failures], signal);
+      failures++;
+
+      // Part of the chunk may have landed before the failure; ask where to carry on from
+      const serverOffset = await getUploadOffset(url, signal).catch(error => {
+        if (isUploadCancelled(error)) throw error;
+        return chunkStart;
+      });
+      if (serverOffset === null) {
+        forgetStoredUpload(file, userId);
+        throw new Error('The upload expired on the server. Please start again.');
+      }
+      offset = serverOffset;
+    }
+
+    onProgress?.(offset, file.size);
+  }
+
+  return getUploadId(url);
+}
@@ -1,4 +1,4 @@
-import { Video, VideoWithMatch } from "../types";
+import { Video, VideoWithMatch, VideoDetails, VideoProcessingInfo } from "../types";
 
 // Generate a random match percentage for a video (for UI display only)
 export function generateMatchPercentage(): number {
@@ -16,11 +16,91 @@ export function formatViewCount(views: number): string {
   }
 }
 
-// Format duration from seconds to MM:SS
+// Format duration from seconds to M:SS, or H:MM:SS from an hour up
 export function formatDuration(seconds: number): string {
-  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
   const remainingSeconds = Math.floor(seconds % 60);
-  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  const secondsPart = remainingSeconds.toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secondsPart}`
+    : `${minutes}:${secondsPart}`;
+}
+
+// Playback speeds offered by the player
+export const playbackRates = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// Parse a m:ss or h:mm:ss timestamp into seconds, or null if malformed
+export function parseTimestamp(timestamp: string): number | null {
+  const match = timestamp.trim().match(/^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  
+  const [, hours, minutes, seconds] = match;
+  if (parseInt(seconds) >= 60 || (hours !== undefined && parseInt(minutes) >= 60)) {
+    return null;
+  }
+  
+  return parseInt(hours || '0') * 3600 + parseInt(minutes) * 60 + parseInt(seconds);
+}
+
+// Parse a deep-link offset: plain seconds ("90"), units ("1m30s", "1h2m")
+// or a clock timestamp ("1:30"). Returns null if it isn't one of those
+export function parseStartTime(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+  
+  const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/i);
+  if (units && (units[1] || units[2] || units[3])) {
+    const [, hours, minutes, seconds] = units;
+    return parseInt(hours || '0') * 3600 + parseInt(minutes || '0') * 60 + parseInt(seconds || '0');
+  }
+  
+  return parseTimestamp(trimmed);
+}
+
+// Public link to a video, optionally starting at an offset in seconds
+export function getVideoShareUrl(videoId: number, startTime?: number | null): string {
+  const url = `${window.location.origin}/watch/${videoId}`;
+  return startTime ? `${url}?t=${Math.floor(startTime)}` : url;
+}
+
+// Matches m:ss or h:mm:ss tokens inside running text
+const TIMESTAMP_TOKEN = /(?<![\d:])(?:\d{1,2}:)?\d{1,2}:\d{2}(?![\d:])/g;
+
+export type TimestampSegment = {
+  text: string;
+  seconds: number | null;
+};
+
+// Split text into plain runs and timestamp tokens so the tokens can be linked
+export function splitTimestamps(text: string): TimestampSegment[] {
+  const segments: TimestampSegment[] = [];
+  let lastIndex = 0;
+  
+  for (const match of Array.from(text.matchAll(TIMESTAMP_TOKEN))) {
+    const seconds = parseTimestamp(match[0]);
+    if (seconds === null || match.index === undefined) continue;
+    
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index), seconds: null });
+    }
+    segments.push({ text: match[0], seconds });
+    lastIndex = match.index + match[0].length;
+  }
+  
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), seconds: null });
+  }
+  
+  return segments;
 }
 
 // Get thumbnail URL with fallback
@@ -53,6 +133,34 @@ export function getVideoUrl(video: Video): string {
   return video.videoUrl;
 }
 
+// Get HLS manifest URL, or null when only the progressive file exists
+export function getHlsManifestUrl(video: VideoDetails): string | null {
+  if (video.hlsUrl) {
+    return video.hlsUrl;
+  }
+  
+  // Older uploads may point videoUrl straight at a manifest
+  if (video.videoUrl && video.videoUrl.split('?')[0].endsWith('.m3u8')) {
+    return video.videoUrl;
+  }
+  
+  return null;
+}
+
+// Format a rendition label (e.g., 480p, 1080p)
+export function formatQualityLabel(height: number): string {
+  return height ? `${height}p` : 'Source';
+}
+
+export function isVideoReady(video: Video & VideoProcessingInfo): boolean {
+  return !video.status || video.status === 'ready';
+}
+
+// Videos still transcoding, or that failed, stay out of public lists
+export function onlyReadyVideos<T extends Video & VideoProcessingInfo>(videos: T[]): T[] {
+  return videos.filter(isVideoReady);
+}
+
 // Add match percentage to videos
 export function addMatchesToVideos(videos: Video[]): VideoWithMatch[] {
   return videos.map(video => ({
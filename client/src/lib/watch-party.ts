@@ -0,0 +1,68 @@
+import { WatchParty, WatchPartyChatMessage, WatchPartyParticipant, WatchPartyPlayback } from "../types";
+
+// Watch parties talk to the server over one WebSocket per room, at
+// /ws/party/:id. The host is the only one whose playback is broadcast;
+// everyone else follows it.
+
+// Sent by the client
+export type WatchPartyClientMessage =
+  | { type: "playback"; playback: WatchPartyPlayback } // Host only
+  | { type: "chat"; content: string }
+  | { type: "transferHost"; userId: number }; // Host only
+
+// Sent by the server
+export type WatchPartyServerMessage =
+  | { type: "state"; party: WatchParty; messages: WatchPartyChatMessage[] } // On join
+  | { type: "playback"; playback: WatchPartyPlayback }
+  | { type: "participants"; participants: WatchPartyParticipant[] }
+  | { type: "host"; hostId: number }
+  | { type: "chat"; message: WatchPartyChatMessage }
+  | { type: "ended" };
+
+// How often the host re-sends its position while playing, in milliseconds
+export const WATCH_PARTY_HEARTBEAT = 5000;
+
+// How often followers compare their position with the host's
+export const WATCH_PARTY_DRIFT_CHECK = 1000;
+
+export const WATCH_PARTY_CHAT_MAX_LENGTH = 300;
+
+// Drift (seconds) below which we leave playback alone, and above which we
+// jump instead of gradually catching up
+const DRIFT_TOLERANCE = 0.3;
+const DRIFT_SEEK_THRESHOLD = 2;
+
+export function getWatchPartySocketUrl(partyId: string): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/ws/party/${encodeURIComponent(partyId)}`;
+}
+
+export function getWatchPartyUrl(videoId: number, partyId: string): string {
+  return `/watch/${videoId}?party=${encodeURIComponent(partyId)}`;
+}
+
+// Where the host should be now, given its last report and when it arrived
+export function getExpectedPosition(playback: WatchPartyPlayback, receivedAt: number): number {
+  if (!playback.playing) {
+    return playback.position;
+  }
+  return playback.position + ((performance.now() - receivedAt) / 1000) * playback.rate;
+}
+
+// While the host plays, small drift is corrected by nudging the playback
+// rate so nobody sees a jump, and large drift by seeking. A paused host is
+// simply matched
+export function getDriftCorrection(drift: number, playback: WatchPartyPlayback): { seek: boolean; rate: number } {
+  const distance = Math.abs(drift);
+  if (!playback.playing) {
+    return { seek: distance > DRIFT_TOLERANCE, rate: playback.rate };
+  }
+  if (distance > DRIFT_SEEK_THRESHOLD) {
+    return { seek: true, rate: playback.rate };
+  }
+  if (distance > DRIFT_TOLERANCE) {
+    // Ahead of the host: slow down a little; behind: speed up a little
+    return { seek: false, rate: playback.rate * (drift > 0 ? 0.95 : 1.05) };
+  }
+  return { seek: false, rate: playback.rate };
+}
@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useClip, useDeleteClip } from '@/hooks/use-clips';
+import { useHlsPlayer } from '@/hooks/use-hls';
+import { useVideoElement } from '@/hooks/use-video-element';
+import { usePlayerPreferences } from '@/hooks/use-player-preferences';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Pause, Play, Trash2, Tv, Volume2, VolumeX } from 'lucide-react';
+import { formatDuration, getThumbnailUrl, isVideoReady } from '@/lib/video-utils';
+import { getClipShareUrl } from '@/lib/clips';
+import { Helmet } from 'react-helmet';
+
+const Clip = () => {
+  const params = useParams<{ id: string }>();
+  const clipId = params?.id ? parseInt(params.id) : null;
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { preferences, updatePreferences } = usePlayerPreferences();
+  const { videoRef, videoElement, attachVideo } = useVideoElement();
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const { data: clip, isLoading, error } = useClip(clipId);
+  const deleteClipMutation = useDeleteClip();
+  useHlsPlayer(videoElement, clip?.video ?? null);
+
+  const isOwner = !!user && !!clip && user.id === clip.userId;
+
+  // Start at the in point and keep looping the range
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !clip) return;
+
+    const startLoop = () => {
+      videoElement.currentTime = clip.start;
+      videoElement.play().catch(err => {
+        console.error('Failed to play clip:', err);
+        setIsPlaying(false);
+      });
+    };
+
+    const handleTimeUpdate = () => {
+      if (videoElement.currentTime >= clip.end || videoElement.currentTime < clip.start - 0.5) {
+        videoElement.currentTime = clip.start;
+      }
+      setCurrentTime(videoElement.currentTime);
+    };
+
+    videoElement.addEventListener('loadedmetadata', startLoop);
+    videoElement.addEventListener('timeupdate', handleTimeUpdate);
+
+    if (videoElement.readyState >= 1) {
+      startLoop();
+    }
+
+    return () => {
+      videoElement.removeEventListener('loadedmetadata', startLoop);
+      videoElement.removeEventListener('timeupdate', handleTimeUpdate);
+    };
+  }, [clip]);
+
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement) return;
+
+    videoElement.volume = preferences.volume;
+    videoElement.muted = preferences.muted;
+  }, [clip, preferences.volume, preferences.muted]);
+
+  const togglePlay = () => {
+    if (!videoRef.current) return;
+
+    if (videoRef.current.paused) {
+      videoRef.current.play().catch(err => {
+        console.error('Failed to play:', err);
+      });
+    } else {
+      videoRef.current.pause();
+    }
+  };
+
+  const copyLink = () => {
+    if (!clip) return;
+
+    navigator.clipboard.writeText(getClipShareUrl(clip.id)).then(
+      () => {
+        toast({
+          title: 'Link copied',
+          description: 'Clip link copied to clipboard',
+          duration: 3000,
+        });
+      },
+      () => {
+        toast({
+          title: 'Failed to copy',
+          description: 'Could not copy link to clipboard',
+          variant: 'destructive',
+          duration: 3000,
+        });
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!clip || !window.confirm(`Delete "${clip.title}"?`)) return;
+
+    deleteClipMutation.mutate(clip, {
+      onSuccess: () => {
+        toast({
+          title: 'Clip deleted',
+          description: `${clip.title} has been deleted`,
+        });
+        navigate(`/profile/${clip.userId}#clips`);
+      },
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'Failed to delete clip',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background text-foreground">
+        <Navbar />
+        <div className="pt-24 px-4 md:px-12 space-y-4">
+          <Skeleton className="w-full max-w-4xl mx-auto aspect-video" />
+          <Skeleton className="h-8 w-1/3 max-w-4xl mx-auto" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !clip) {
+    return (
+      <div className="min-h-screen bg-background text-foreground">
+        <Navbar />
+        <div className="pt-24 px-4 text-center">
+          <h1 className="text-2xl font-bold mb-4">Clip Not Found</h1>
+          <p className="text-muted-foreground">This clip doesn't exist or has been removed.</p>
+        </div>
+      </div>
+    );
+  }
+
+  // The source video is being reprocessed, or failed
+  if (!isVideoReady(clip.video)) {
+    return (
+      <div className="min-h-screen bg-background text-foreground">
+        <Navbar />
+        <div className="pt-24 px-4 text-center">
+          <h1 className="text-2xl font-bold mb-4">Clip Unavailable</h1>
+          <p className="text-muted-foreground">The video this clip is from can't be played right now.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const clipLength = clip.end - clip.start;
+  const progress = clipLength > 0 ? ((currentTime - clip.start) / clipLength) * 100 : 0;
+
+  return (
+    <>
+      <Helmet>
+        <title>{clip.title} - GorillaFlix</title>
+        <meta name="description" content={`A clip from "${clip.video.title}" on GorillaFlix.`} />
+      </Helmet>
+
+      <div className="min-h-screen bg-background text-foreground">
+        <Navbar />
+
+        <div className="pt-24 px-4 md:px-12 pb-12 max-w-4xl mx-auto">
+          <div className="relative rounded-md overflow-hidden bg-black group">
+            <video
+              ref={attachVideo}
+              className="w-full aspect-video object-contain cursor-pointer"
+              poster={getThumbnailUrl(clip.video)}
+              onClick={togglePlay}
+              onPlay={() => setIsPlaying(true)}
+              onPause={() => setIsPlaying(false)}
+              playsInline
+            />
+
+            <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-black/90 to-transparent">
+              <div className="w-full bg-gray-600 h-1 rounded-full mb-2">
+                <div
+                  className="bg-primary h-full rounded-full"
+                  style={{ width: `${Math.max(0, Math.min(progress, 100))}%` }}
+                ></div>
+              </div>
+              <div className="flex items-center gap-2 text-white">
+                <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-white/10" onClick={togglePlay}>
+                  {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 hover:bg-white/10"
+                  onClick={() => updatePreferences({ muted: !preferences.muted })}
+                >
+                  {preferences.muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+                </Button>
+                <span className="text-sm">
+                  {formatDuration(Math.max(0, currentTime - clip.start))} / {formatDuration(clipLength)}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mt-6">
+            <div>
+              <h1 className="text-2xl font-bold mb-1">{clip.title}</h1>
+              <p className="text-sm text-slate-400">
+                Clipped by{' '}
+                <Link href={`/profile/${clip.userId}`}>
+                  <a className="text-slate-200 hover:underline">{clip.username}</a>
+                </Link>
+                {' '}from <span className="text-slate-200">{clip.video.title}</span>
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                className="bg-white hover:bg-white/90 text-black font-semibold"
+                onClick={() => navigate(`/watch/${clip.videoId}?t=${Math.floor(clip.start)}`)}
+              >
+                <Tv size={16} className="mr-1" />
+                Watch full video
+              </Button>
+              <Button variant="secondary" onClick={copyLink}>
+                <Copy size={16} className="mr-1" />
+                Copy link
+              </Button>
+              {isOwner && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-red-500 hover:text-red-400"
+                  onClick={handleDelete}
+                  disabled={deleteClipMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default Clip;
@@ -0,0 +1,8 @@
+import VideoPlayer from '@/pages/VideoPlayer';
+
+// Chrome-less player for framing on other sites: /embed/:id
+const Embed = () => {
+  return <VideoPlayer embed />;
+};
+
+export default Embed;
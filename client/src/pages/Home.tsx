@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useFeaturedVideos, usePopularVideos, useVideosByCategory } from '@/hooks/use-movies';
+import { useContinueWatching } from '@/hooks/use-watch-progress';
+import { useAuth } from '@/hooks/use-auth';
 import { addMatchesToVideos } from '@/lib/video-utils';
 import Navbar from '@/components/Navbar';
 import HeroBanner from '@/components/HeroBanner';
@@ -8,6 +10,8 @@ import { videoCategories } from '@shared/schema';
 import { Helmet } from 'react-helmet';
 
 const Home = () => {
+  const { user } = useAuth();
+  
   // Fetch data
   const { data: featuredVideos, isLoading: isFeaturedLoading } = useFeaturedVideos();
   const { data: popularVideos, isLoading: isPopularLoading } = usePopularVideos(10);
@@ -18,6 +22,7 @@ const Home = () => {
   
   const { data: categoryAVideos, isLoading: isCategoryALoading } = useVideosByCategory(categoryA);
   const { data: categoryBVideos, isLoading: isCategoryBLoading } = useVideosByCategory(categoryB);
+  const { data: continueWatching, isLoading: isContinueWatchingLoading } = useContinueWatching(user?.id || null);
   
   // Select a random featured video for the hero banner
   const [heroVideo, setHeroVideo] = useState(null);
@@ -35,6 +40,14 @@ const Home = () => {
   const enhancedCategoryAVideos = categoryAVideos ? addMatchesToVideos(categoryAVideos) : [];
   const enhancedCategoryBVideos = categoryBVideos ? addMatchesToVideos(categoryBVideos) : [];
   
+  // Attach how far along each partially watched video is
+  const continueWatchingVideos = continueWatching
+    ? continueWatching.map(({ video, progress }) => ({
+        ...video,
+        progress: progress.duration ? progress.position / progress.duration : 0
+      }))
+    : [];
+  
   return (
     <>
       <Helmet>
@@ -50,6 +63,14 @@ const Home = () => {
           <HeroBanner video={heroVideo} loading={isFeaturedLoading} />
           
           {/* Content Rows */}
+          {continueWatchingVideos.length > 0 && (
+            <ContentRow 
+              title="Continue Watching" 
+              videos={continueWatchingVideos}
+              loading={isContinueWatchingLoading}
+            />
+          )}
+          
           <div id="popular">
             <ContentRow 
               title="Popular on GorillaFlix" 
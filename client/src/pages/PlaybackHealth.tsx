@@ -0,0 +1,140 @@
+import { useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { usePlaybackStats } from '@/hooks/use-playback-telemetry';
+import Navbar from '@/components/Navbar';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Activity, Loader2 } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatQualityLabel } from '@/lib/video-utils';
+import { cn } from '@/lib/utils';
+import { Helmet } from 'react-helmet';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const PlaybackHealth = () => {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+
+  // Only Gorilla Tag Dev (user ID 1) can access this page
+  const isAdmin = user?.id === 1;
+  const { data: stats = [], isLoading, error } = usePlaybackStats(isAdmin);
+
+  useEffect(() => {
+    if (!isAdmin) {
+      navigate('/');
+    }
+  }, [isAdmin, navigate]);
+
+  // Worst first: failures, then stalls
+  const sortedStats = [...stats].sort((a, b) => b.errorRate - a.errorRate || b.rebufferRatio - a.rebufferRatio);
+
+  return (
+    <>
+      <Helmet>
+        <title>Playback Health - GorillaFlix</title>
+        <meta name="description" content="Playback quality-of-experience per video on GorillaFlix" />
+      </Helmet>
+
+      <div className="min-h-screen bg-background">
+        <Navbar />
+
+        <div className="container mx-auto px-4 py-8 mt-16">
+          <div className="flex items-center mb-8">
+            <Activity className="h-6 w-6 text-red-500 mr-2" />
+            <h1 className="text-2xl font-bold text-slate-100">Playback Health</h1>
+          </div>
+
+          <Card className="bg-slate-900 border-slate-800">
+            <CardContent className="p-0">
+              {isLoading ? (
+                <div className="flex justify-center items-center p-16">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : error ? (
+                <div className="text-center text-red-500 p-8">
+                  Failed to load playback stats. Please try refreshing the page.
+                </div>
+              ) : (
+                <Table>
+                  <TableCaption>Aggregated from viewers' playback sessions</TableCaption>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Video</TableHead>
+                      <TableHead className="text-center">Sessions</TableHead>
+                      <TableHead className="text-center">Avg startup</TableHead>
+                      <TableHead className="text-center">Rebuffering</TableHead>
+                      <TableHead className="text-center">Stalls / session</TableHead>
+                      <TableHead className="text-center">Error rate</TableHead>
+                      <TableHead className="text-center">Dropped frames</TableHead>
+                      <TableHead>Renditions</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sortedStats.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center py-8 text-slate-400">
+                          No playback sessions reported yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      sortedStats.map(stat => (
+                        <TableRow key={stat.videoId} className="hover:bg-slate-800">
+                          <TableCell className="font-medium">
+                            <div className="text-slate-100 truncate max-w-xs">{stat.title}</div>
+                            <div className="text-xs text-slate-400">ID: {stat.videoId}</div>
+                          </TableCell>
+                          <TableCell className="text-center">{stat.sessions.toLocaleString()}</TableCell>
+                          <TableCell className="text-center">
+                            {stat.avgStartupTimeMs === null ? '—' : `${(stat.avgStartupTimeMs / 1000).toFixed(2)}s`}
+                          </TableCell>
+                          <TableCell className={cn('text-center', stat.rebufferRatio > 0.02 && 'text-yellow-500')}>
+                            {formatPercent(stat.rebufferRatio)}
+                          </TableCell>
+                          <TableCell className="text-center">{stat.rebuffersPerSession.toFixed(2)}</TableCell>
+                          <TableCell className={cn('text-center', stat.errorRate > 0.01 && 'text-red-500')}>
+                            {formatPercent(stat.errorRate)}
+                          </TableCell>
+                          <TableCell className="text-center">{formatPercent(stat.droppedFrameRate)}</TableCell>
+                          <TableCell className="text-xs text-slate-300">
+                            {stat.renditions.length === 0
+                              ? '—'
+                              : stat.renditions
+                                  .map(rendition => `${formatQualityLabel(rendition.height)} ${formatPercent(rendition.share)}`)
+                                  .join(', ')}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="border-slate-700 hover:bg-slate-800"
+                              onClick={() => navigate(`/watch/${stat.videoId}`)}
+                            >
+                              View
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default PlaybackHealth;
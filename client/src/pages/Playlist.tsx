@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { usePlaylist, useUpdatePlaylist, useDeletePlaylist, useRemoveFromPlaylist, useReorderPlaylist } from '@/hooks/use-playlists';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { GripVertical, Play, Shuffle, Trash2 } from 'lucide-react';
+import { getThumbnailUrl } from '@/lib/video-utils';
+import { getPlaylistWatchUrl, shuffleOrder } from '@/lib/playlists';
+import { PlaylistVisibility } from '@/types';
+import { cn } from '@/lib/utils';
+import { Helmet } from 'react-helmet';
+
+const Playlist = () => {
+  const params = useParams<{ id: string }>();
+  const playlistId = params?.id ? parseInt(params.id) : null;
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const { data: playlist, isLoading, error } = usePlaylist(playlistId);
+  const updatePlaylistMutation = useUpdatePlaylist();
+  const deletePlaylistMutation = useDeletePlaylist();
+  const removeFromPlaylistMutation = useRemoveFromPlaylist();
+  const reorderPlaylistMutation = useReorderPlaylist();
+
+  const isOwner = !!user && !!playlist && user.id === playlist.userId;
+
+  const handlePlayAll = () => {
+    if (playlist && playlist.videos.length > 0) {
+      navigate(getPlaylistWatchUrl(playlist.videos[0].id, playlist.id));
+    }
+  };
+
+  const handleShufflePlay = () => {
+    if (playlist && playlist.videos.length > 0) {
+      const [firstId] = shuffleOrder(playlist.videos.map(video => video.id), null);
+      navigate(`${getPlaylistWatchUrl(firstId, playlist.id)}&shuffle=1`);
+    }
+  };
+
+  const handleVisibilityChange = (visibility: string) => {
+    if (!playlist) return;
+
+    updatePlaylistMutation.mutate({ id: playlist.id, visibility: visibility as PlaylistVisibility }, {
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'Failed to update playlist',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const handleDelete = () => {
+    if (!playlist || !window.confirm(`Delete "${playlist.name}"? This can't be undone.`)) return;
+
+    deletePlaylistMutation.mutate(playlist, {
+      onSuccess: () => {
+        toast({
+          title: 'Playlist deleted',
+          description: `${playlist.name} has been deleted`,
+        });
+        navigate(`/profile/${playlist.userId}#playlists`);
+      },
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'Failed to delete playlist',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const handleRemove = (videoId: number) => {
+    if (!playlist) return;
+
+    removeFromPlaylistMutation.mutate({ playlistId: playlist.id, videoId }, {
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'Failed to remove from playlist',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  // Native drag-and-drop: remember where the row came from and where it will land
+  const handleDrop = () => {
+    if (!playlist || draggedIndex === null || dropIndex === null || draggedIndex === dropIndex) {
+      setDraggedIndex(null);
+      setDropIndex(null);
+      return;
+    }
+
+    const videoIds = playlist.videos.map(video => video.id);
+    const [moved] = videoIds.splice(draggedIndex, 1);
+    videoIds.splice(dropIndex, 0, moved);
+    // Keep videos that aren't shown yet (still processing) rather than dropping them
+    videoIds.push(...playlist.videoIds.filter(id => !videoIds.includes(id)));
+
+    reorderPlaylistMutation.mutate({ playlistId: playlist.id, videoIds }, {
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'Failed to reorder playlist',
+          variant: 'destructive',
+        });
+      },
+    });
+
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background text-foreground">
+        <Navbar />
+        <div className="pt-24 px-4 md:px-12 space-y-4">
+          <Skeleton className="h-10 w-1/3" />
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !playlist) {
+    return (
+      <div className="min-h-screen bg-background text-foreground">
+        <Navbar />
+        <div className="pt-24 px-4 text-center">
+          <h1 className="text-2xl font-bold mb-4">Playlist Not Found</h1>
+          <p className="text-muted-foreground">This playlist doesn't exist or is private.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>{playlist.name} - GorillaFlix</title>
+        <meta name="description" content={playlist.description || `A Gorilla Tag playlist on GorillaFlix.`} />
+      </Helmet>
+
+      <div className="min-h-screen bg-background text-foreground">
+        <Navbar />
+
+        <div className="pt-24 px-4 md:px-12 pb-12">
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">{playlist.name}</h1>
+              {playlist.description && (
+                <p className="text-muted-foreground mb-2">{playlist.description}</p>
+              )}
+              <p className="text-sm text-slate-400">
+                {playlist.videos.length} {playlist.videos.length === 1 ? 'video' : 'videos'}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                className="bg-white hover:bg-white/90 text-black font-semibold"
+                onClick={handlePlayAll}
+                disabled={playlist.videos.length === 0}
+              >
+                <Play size={16} className="mr-1" />
+                Play all
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={handleShufflePlay}
+                disabled={playlist.videos.length === 0}
+              >
+                <Shuffle size={16} className="mr-1" />
+                Shuffle
+              </Button>
+              {isOwner && (
+                <>
+                  <Select value={playlist.visibility} onValueChange={handleVisibilityChange}>
+                    <SelectTrigger className="w-32 bg-background border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="public">Public</SelectItem>
+                      <SelectItem value="unlisted">Unlisted</SelectItem>
+                      <SelectItem value="private">Private</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500 hover:text-red-400"
+                    onClick={handleDelete}
+                    disabled={deletePlaylistMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {playlist.videos.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-semibold mb-2">This Playlist is Empty</h3>
+              <p className="text-muted-foreground">Save videos here from any video card or the player.</p>
+            </div>
+          ) : (
+            <ol className="space-y-2">
+              {playlist.videos.map((video, index) => (
+                <li
+                  key={video.id}
+                  draggable={isOwner}
+                  onDragStart={() => setDraggedIndex(index)}
+                  onDragOver={(e) => {
+                    if (draggedIndex === null) return;
+                    e.preventDefault();
+                    setDropIndex(index);
+                  }}
+                  onDrop={handleDrop}
+                  onDragEnd={() => {
+                    setDraggedIndex(null);
+                    setDropIndex(null);
+                  }}
+                  className={cn(
+                    'flex items-center gap-4 rounded-md p-2 bg-slate-900/60 transition-colors',
+                    draggedIndex === index && 'opacity-50',
+                    dropIndex === index && draggedIndex !== index && 'ring-2 ring-primary'
+                  )}
+                >
+                  {isOwner && <GripVertical className="h-5 w-5 text-slate-500 cursor-grab" />}
+                  <span className="w-6 text-sm text-slate-400 text-center">{index + 1}</span>
+                  <button
+                    className="flex flex-1 items-center gap-4 text-left min-w-0"
+                    onClick={() => navigate(getPlaylistWatchUrl(video.id, playlist.id))}
+                  >
+                    <img
+                      src={getThumbnailUrl(video)}
+                      alt={video.title}
+                      className="w-32 aspect-video object-cover rounded"
+                    />
+                    <div className="min-w-0">
+                      <div className="font-medium text-slate-100 truncate">{video.title}</div>
+                      <div className="text-xs text-slate-400">{video.category}</div>
+                    </div>
+                  </button>
+                  {isOwner && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(video.id)}
+                      className="h-8 w-8 p-0 text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default Playlist;
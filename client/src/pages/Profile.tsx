@@ -1,6 +1,8 @@
 import { useState } from 'react';
-import { useParams } from 'wouter';
+import { Link, useParams } from 'wouter';
 import { useUserVideos, useWatchlist } from '@/hooks/use-movies';
+import { useUserPlaylists } from '@/hooks/use-playlists';
+import { useUserClips } from '@/hooks/use-clips';
 import { useAuth } from '@/hooks/use-auth';
 import Navbar from '@/components/Navbar';
 import ContentRow from '@/components/ContentRow';
@@ -9,6 +11,9 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Link2, ListVideo, Lock, Scissors } from 'lucide-react';
+import { formatDuration, getThumbnailUrl, onlyReadyVideos } from '@/lib/video-utils';
 import { Helmet } from 'react-helmet';
 
 const Profile = () => {
@@ -22,13 +27,21 @@ const Profile = () => {
   // Fetch user videos and watchlist
   const { data: userVideos, isLoading: isUserVideosLoading } = useUserVideos(userId);
   const { data: watchlistVideos, isLoading: isWatchlistLoading } = useWatchlist(userId);
+  const { data: playlists, isLoading: isPlaylistsLoading } = useUserPlaylists(userId);
+  const { data: clips, isLoading: isClipsLoading } = useUserClips(userId);
   
   // Check if this is the current user's profile
   const isCurrentUser = currentUser?.id === userId;
   
+  // Uploaders can follow their videos through processing; everyone else only sees finished ones
+  const visibleVideos = userVideos && (isCurrentUser ? userVideos : onlyReadyVideos(userVideos));
+  
   // Get the active tab from the URL hash
   const hash = typeof window !== 'undefined' ? window.location.hash : '';
-  const activeTab = hash === '#watchlist' ? 'watchlist' : 'uploads';
+  const activeTab = hash === '#watchlist' ? 'watchlist'
+    : hash === '#playlists' ? 'playlists'
+    : hash === '#clips' ? 'clips'
+    : 'uploads';
   
   // Close the edit modal
   const handleEditSuccess = () => {
@@ -101,13 +114,19 @@ const Profile = () => {
               <TabsTrigger value="watchlist" className="flex-1 md:flex-none">
                 My List
               </TabsTrigger>
+              <TabsTrigger value="playlists" className="flex-1 md:flex-none">
+                Playlists
+              </TabsTrigger>
+              <TabsTrigger value="clips" className="flex-1 md:flex-none">
+                Clips
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="uploads">
-              {userVideos && userVideos.length > 0 ? (
+              {visibleVideos && visibleVideos.length > 0 ? (
                 <ContentRow 
                   title="Uploaded Videos" 
-                  videos={userVideos}
+                  videos={visibleVideos}
                   loading={isUserVideosLoading}
                 />
               ) : (
@@ -154,6 +173,97 @@ const Profile = () => {
                 </div>
               )}
             </TabsContent>
+            
+            <TabsContent value="playlists">
+              {isPlaylistsLoading ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                  {Array(4).fill(0).map((_, index) => (
+                    <Skeleton key={`skeleton-${index}`} className="w-full aspect-video" />
+                  ))}
+                </div>
+              ) : playlists && playlists.length > 0 ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                  {playlists.map(playlist => (
+                    <Link key={playlist.id} href={`/playlist/${playlist.id}`}>
+                      <a className="group block">
+                        <div className="relative rounded-md overflow-hidden bg-slate-800 aspect-video">
+                          {playlist.thumbnail && (
+                            <img 
+                              src={playlist.thumbnail} 
+                              alt={playlist.name} 
+                              className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                            />
+                          )}
+                          <div className="absolute inset-y-0 right-0 w-1/3 bg-black/75 flex flex-col items-center justify-center text-white">
+                            <ListVideo size={20} />
+                            <span className="text-sm font-medium">{playlist.videoIds.length}</span>
+                          </div>
+                        </div>
+                        <div className="mt-2 flex items-center gap-1.5">
+                          {playlist.visibility === 'private' && <Lock size={12} className="text-slate-400" />}
+                          {playlist.visibility === 'unlisted' && <Link2 size={12} className="text-slate-400" />}
+                          <span className="font-medium text-sm truncate">{playlist.name}</span>
+                        </div>
+                      </a>
+                    </Link>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <h3 className="text-xl font-semibold mb-2">No Playlists Yet</h3>
+                  <p className="text-muted-foreground mb-4">
+                    {isCurrentUser 
+                      ? "Save videos to a new playlist from any video card or the player."
+                      : `${currentUser.username} hasn't made any public playlists yet.`
+                    }
+                  </p>
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="clips">
+              {isClipsLoading ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                  {Array(4).fill(0).map((_, index) => (
+                    <Skeleton key={`skeleton-${index}`} className="w-full aspect-video" />
+                  ))}
+                </div>
+              ) : clips && clips.length > 0 ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                  {clips.map(clip => (
+                    <Link key={clip.id} href={`/clip/${clip.id}`}>
+                      <a className="group block">
+                        <div className="relative rounded-md overflow-hidden bg-slate-800 aspect-video">
+                          <img 
+                            src={getThumbnailUrl(clip.video)} 
+                            alt={clip.title} 
+                            className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                          />
+                          <span className="absolute bottom-1 right-1 flex items-center gap-1 rounded bg-black/80 px-1.5 py-0.5 text-xs text-white">
+                            <Scissors size={10} />
+                            {formatDuration(clip.end - clip.start)}
+                          </span>
+                        </div>
+                        <div className="mt-2">
+                          <div className="font-medium text-sm truncate">{clip.title}</div>
+                          <div className="text-xs text-slate-400 truncate">{clip.video.title}</div>
+                        </div>
+                      </a>
+                    </Link>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <h3 className="text-xl font-semibold mb-2">No Clips Yet</h3>
+                  <p className="text-muted-foreground mb-4">
+                    {isCurrentUser 
+                      ? "Use the scissors button in the player to cut a moment from any video."
+                      : `${currentUser.username} hasn't published any clips yet.`
+                    }
+                  </p>
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -1,6 +1,6 @@
 import { useState } from 'react';
-import { useLocation } from 'wouter';
-import { useUploadVideo } from '@/hooks/use-movies';
+import { Link } from 'wouter';
+import { useUploadConfig, useUploadVideo, useUserVideos } from '@/hooks/use-movies';
 import { useAuth } from '@/hooks/use-auth';
 import Navbar from '@/components/Navbar';
 import UploadModal from '@/components/UploadModal';
@@ -8,14 +8,27 @@ import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Film, Upload as UploadIcon } from 'lucide-react';
 import { Helmet } from 'react-helmet';
+import { formatFileSize } from '@/lib/uploads';
+import { getThumbnailUrl } from '@/lib/video-utils';
+import { VideoStatusBadge } from '@/components/VideoStatusBadge';
+import { Video } from '@shared/schema';
+import { VideoProcessingInfo } from '@/types';
+
+// How many of the creator's latest uploads to list with their processing status
+const RECENT_UPLOAD_COUNT = 5;
 
 const Upload = () => {
-  const [, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
   const [isModalOpen, setIsModalOpen] = useState(false);
   
   const uploadMutation = useUploadVideo();
+  const { data: uploadConfig } = useUploadConfig();
+  const { data: userVideos } = useUserVideos(user?.id ?? null);
+  
+  const recentUploads: (Video & VideoProcessingInfo)[] = userVideos
+    ? [...userVideos].sort((a, b) => b.id - a.id).slice(0, RECENT_UPLOAD_COUNT)
+    : [];
   
   const handleUpload = async (formData: FormData) => {
     // Protected route ensures user is logged in, but double check
@@ -32,13 +45,11 @@ const Upload = () => {
       // Simply pass the formData to the mutation
       await uploadMutation.mutateAsync(formData);
       
+      // Stay here so the creator can watch it move through processing
       toast({
         title: "Upload successful",
-        description: "Your video has been uploaded successfully and will appear in your library",
+        description: "Your video is being processed and will go live when it's ready",
       });
-      
-      // Redirect to home page after successful upload
-      navigate('/');
     } catch (error) {
       console.error('Upload error:', error);
       toast({
@@ -89,11 +100,51 @@ const Upload = () => {
               </div>
             </div>
             
+            {recentUploads.length > 0 && (
+              <div className="mt-12 bg-card rounded-lg p-6">
+                <h3 className="text-lg font-semibold mb-4">Your Recent Uploads</h3>
+                <ul className="space-y-3">
+                  {recentUploads.map(video => (
+                    <li key={video.id} className="flex items-center gap-4">
+                      <img
+                        src={getThumbnailUrl(video)}
+                        alt={video.title}
+                        className="w-24 aspect-video object-cover rounded"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          {video.status === 'processing' || video.status === 'failed' ? (
+                            <span className="font-medium truncate">{video.title}</span>
+                          ) : (
+                            <Link href={`/watch/${video.id}`} className="font-medium truncate hover:underline">
+                              {video.title}
+                            </Link>
+                          )}
+                          <VideoStatusBadge video={video} />
+                        </div>
+                        {video.status === 'processing' && (
+                          <p className="text-sm text-muted-foreground">Converting for playback on every device...</p>
+                        )}
+                        {video.status === 'failed' && (
+                          <p className="text-sm text-red-400">
+                            {video.failureReason || "We couldn't convert this video."} Try uploading it again.
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
             <div className="mt-12 bg-card rounded-lg p-6">
               <h3 className="text-lg font-semibold mb-4">Upload Guidelines</h3>
               <ul className="space-y-2 list-disc list-inside text-muted-foreground">
                 <li>Videos should be related to Gorilla Tag gameplay or community</li>
-                <li>Maximum file size: 50MB</li>
+                {uploadConfig && (
+                  <li>Maximum file size: {formatFileSize(uploadConfig.maxFileSize)}</li>
+                )}
+                <li>Large uploads resume where they left off if your connection drops</li>
                 <li>Supported formats: MP4, MOV, WebM</li>
                 <li>Add a descriptive title and thumbnail for better visibility</li>
                 <li>Select the appropriate category for your content</li>
@@ -1,24 +1,81 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { useLocation, useParams } from 'wouter';
 import { useVideo, useAllVideos } from '@/hooks/use-movies';
-import { getRelatedVideos, getThumbnailUrl, getVideoUrl } from '@/lib/video-utils';
+import { getRelatedVideos, getThumbnailUrl, isVideoReady, parseStartTime, playbackRates } from '@/lib/video-utils';
 import { useAuth } from '@/hooks/use-auth';
 import Navbar from '@/components/Navbar';
 import ContentRow from '@/components/ContentRow';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowLeft, Play, Pause, Volume2, VolumeX, RotateCcw, Maximize, MessageSquare, Captions } from 'lucide-react';
+import { ArrowLeft, Play, Pause, Volume2, VolumeX, RotateCcw, Maximize, MessageSquare, PictureInPicture2, Scissors, GraduationCap, Loader2, AlertCircle } from 'lucide-react';
 import { addMatchesToVideos } from '@/lib/video-utils';
 import { useToast } from '@/hooks/use-toast';
 import { Helmet } from 'react-helmet';
 import { LikeButton } from '@/components/LikeButton';
 import { DislikeButton } from '@/components/DislikeButton';
 import { Comments } from '@/components/Comments';
+import { TimestampText } from '@/components/TimestampText';
+import { PlayerSeekContext } from '@/hooks/use-player-seek';
 import { ModerateButton } from '@/components/ModerateButton';
 import { AdminDeleteButton } from '@/components/AdminDeleteButton';
 import { ShareButton } from '@/components/ShareButton';
+import { QualityMenu } from '@/components/QualityMenu';
+import { useHlsPlayer } from '@/hooks/use-hls';
+import { useVideoElement } from '@/hooks/use-video-element';
+import { CaptionsMenu } from '@/components/CaptionsMenu';
+import { ManageCaptionsButton } from '@/components/ManageCaptionsButton';
+import { useVideoCaptions, useActiveCaption } from '@/hooks/use-captions';
+import { getCaptionPreference, setCaptionPreference } from '@/lib/captions';
+import { useWatchProgress, useTrackWatchProgress } from '@/hooks/use-watch-progress';
+import { usePlayerShortcuts } from '@/hooks/use-player-shortcuts';
+import { ShortcutsHelpOverlay } from '@/components/ShortcutsHelpOverlay';
+import { PlayerSettingsMenu } from '@/components/PlayerSettingsMenu';
+import { usePlayerPreferences } from '@/hooks/use-player-preferences';
+import { ChapterList } from '@/components/ChapterList';
+import { getVideoChapters, getChapterIndexAt } from '@/lib/chapters';
+import { Chapter } from '@/types';
+import { SeekPreview } from '@/components/SeekPreview';
+import { useStoryboard } from '@/hooks/use-storyboard';
+import { getStoryboardFrameAt } from '@/lib/storyboard';
+import { useMiniPlayer } from '@/hooks/use-mini-player';
+import { isPictureInPictureSupported, togglePictureInPicture } from '@/lib/picture-in-picture';
+import { lockOrientation, unlockOrientation } from '@/lib/screen-orientation';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useTouchGestures } from '@/hooks/use-touch-gestures';
+import { useWatchQueue } from '@/hooks/use-watch-queue';
+import { UpNextOverlay } from '@/components/UpNextOverlay';
+import { useQueryParams } from '@/hooks/use-query-params';
+import { usePlaylist } from '@/hooks/use-playlists';
+import { PlaylistPanel } from '@/components/PlaylistPanel';
+import { AddToPlaylistButton } from '@/components/AddToPlaylistButton';
+import { ClipEditor, ClipRange } from '@/components/ClipEditor';
+import { CLIP_DEFAULT_DURATION } from '@/lib/clips';
+import { useEmbedApi } from '@/hooks/use-embed-api';
+import { useWatchParty } from '@/hooks/use-watch-party';
+import { usePlaybackTelemetry, useReportPlaybackProblem } from '@/hooks/use-playback-telemetry';
+import { PlayerErrorOverlay } from '@/components/PlayerErrorOverlay';
+import { PracticeToolbar } from '@/components/PracticeToolbar';
+import { useZoomPan } from '@/hooks/use-zoom-pan';
+import { LoopRange, PRACTICE_FRAME_RATE, isLoopActive } from '@/lib/practice';
+import { WatchPartyButton } from '@/components/WatchPartyButton';
+import { WatchPartyPanel } from '@/components/WatchPartyPanel';
+import { getWatchPartyUrl } from '@/lib/watch-party';
+import { cn } from '@/lib/utils';
+import { getNextPlaylistVideoId, getPlaylistWatchUrl, shuffleOrder } from '@/lib/playlists';
+import { LiveComment, PlayerPreferences, PlaylistRepeatMode } from '@/types';
+import { useLiveComments, usePostLiveComment, useReportLiveComment } from '@/hooks/use-live-comments';
+import { LiveCommentOverlay } from '@/components/LiveCommentOverlay';
+import { LiveCommentComposer } from '@/components/LiveCommentComposer';
 
-const VideoPlayer = () => {
+// Seconds the Up Next screen waits before autoplaying
+const UP_NEXT_COUNTDOWN = 10;
+
+interface VideoPlayerProps {
+  // Chrome-less player for /embed/:id, framed on other sites
+  embed?: boolean;
+}
+
+const VideoPlayer = ({ embed = false }: VideoPlayerProps) => {
   const params = useParams<{ id: string }>();
   const videoId = params?.id ? parseInt(params.id) : null;
   const [, navigate] = useLocation();
@@ -33,31 +90,262 @@ const VideoPlayer = () => {
   
   // Player state
   const [isPlaying, setIsPlaying] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [controlsVisible, setControlsVisible] = useState(true);
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const [composerActive, setComposerActive] = useState(false);
+  const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
+  const [playerNotice, setPlayerNotice] = useState<string | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const isMobile = useIsMobile();
+  // Set by swiping on touch screens; a CSS filter, since pages can't change screen brightness
+  const [brightness, setBrightness] = useState(1);
+  const [hasEnded, setHasEnded] = useState(false);
+  const [clipRange, setClipRange] = useState<ClipRange | null>(null);
+  
+  // Practice mode: A-B loop, frame stepping, slow motion and zoom
+  const [practiceMode, setPracticeMode] = useState(false);
+  const [loop, setLoop] = useState<LoopRange>({ a: null, b: null });
+  // Practice speeds stay out of the saved preferences; null means use the preference
+  const [practiceRate, setPracticeRate] = useState<number | null>(null);
+  // An embed's volume and mute stay with that player, since the framing page
+  // can change them too; unset means use the preference
+  const [embedAudio, setEmbedAudio] = useState<Partial<Pick<PlayerPreferences, 'volume' | 'muted'>>>({});
+  const zoomPan = useZoomPan();
+  const [upNextCountdown, setUpNextCountdown] = useState<number | null>(null);
+  const [seekVersion, setSeekVersion] = useState(0);
+  const { videoRef, videoElement, attachVideo } = useVideoElement();
   const playerRef = useRef<HTMLDivElement>(null);
+  const seekBarRef = useRef<HTMLDivElement>(null);
+  const [seekHover, setSeekHover] = useState<{ time: number; position: number } | null>(null);
+  
+  // Playlist mode, entered through ?list=<id>
+  const queryParams = useQueryParams();
+  const playlistId = queryParams.get('list') ? parseInt(queryParams.get('list') as string) : null;
+  const { data: playlist } = usePlaylist(playlistId);
+  const [shuffle, setShuffle] = useState(queryParams.get('shuffle') === '1');
+  const [repeat, setRepeat] = useState<PlaylistRepeatMode>('off');
+  
+  // Deep links: ?t= starts at an offset, ?start=&end= plays only a fragment
+  const startParam = parseStartTime(queryParams.get('t') ?? queryParams.get('start'));
+  const endParam = parseStartTime(queryParams.get('end'));
+  const fragmentEndRef = useRef<number | null>(null);
+  const embedAutoplay = queryParams.get('autoplay') === '1';
+  
+  // Watch party room, joined through ?party=<id>
+  const partyId = embed ? null : queryParams.get('party');
+  const [shuffledOrder, setShuffledOrder] = useState<number[]>([]);
+  const playlistVideoIds = playlist ? playlist.videos.map(item => item.id) : [];
+  const playlistKey = playlistVideoIds.join(',');
+  
+  // Reshuffle when shuffle is switched on or the playlist's contents change
+  useEffect(() => {
+    if (shuffle) {
+      setShuffledOrder(shuffleOrder(playlistVideoIds, videoId));
+    }
+  }, [shuffle, playlistKey]);
+  
+  // Position to jump to once the source has loaded metadata
+  const pendingStartRef = useRef<number | null>(null);
+  const { openMiniPlayer, takeMiniPlayerHandoff } = useMiniPlayer();
+  
+  // Volume, speed and loop follow the viewer's saved preferences
+  const { preferences: savedPreferences, updatePreferences } = usePlayerPreferences();
+  const preferences = embed ? { ...savedPreferences, ...embedAudio } : savedPreferences;
+  
+  const changePreferences = (changes: Partial<PlayerPreferences>) => {
+    if (!embed) {
+      updatePreferences(changes);
+      return;
+    }
+    
+    const { volume, muted, ...rest } = changes;
+    if (volume !== undefined) {
+      setEmbedAudio(current => ({ ...current, volume }));
+    }
+    if (muted !== undefined) {
+      setEmbedAudio(current => ({ ...current, muted }));
+    }
+    if (Object.keys(rest).length > 0) {
+      updatePreferences(rest);
+    }
+  };
+  
+  // Timestamped comments drawn over the video
+  const { data: liveComments = [] } = useLiveComments(videoId, preferences.liveComments);
+  const postLiveCommentMutation = usePostLiveComment();
+  const reportLiveCommentMutation = useReportLiveComment();
+  
+  // Attach HLS renditions when available, otherwise the progressive file
+  const {
+    streamType,
+    levels,
+    selectedLevel,
+    activeLevel,
+    selectLevel,
+    failure: playbackFailure,
+    isRecovering,
+    retry: retryPlayback,
+  } = useHlsPlayer(videoElement, video);
+  
+  // Startup, stall, error and rendition reporting
+  const activeHeight = levels.find(level => level.index === activeLevel)?.height ?? null;
+  usePlaybackTelemetry(videoElement, video?.id ?? null, streamType, activeHeight);
+  
+  const reportPlaybackProblemMutation = useReportPlaybackProblem();
+  const [hasReportedProblem, setHasReportedProblem] = useState(false);
+  
+  useEffect(() => {
+    setHasReportedProblem(false);
+  }, [videoId, playbackFailure]);
+  
+  // Subtitle tracks, with the viewer's last choice restored
+  const { data: captionTracks = [] } = useVideoCaptions(videoId);
+  const [captionLanguage, setCaptionLanguage] = useState<string | null>(null);
+  const captionText = useActiveCaption(videoElement, captionTracks, captionLanguage);
+  const lastCaptionLanguageRef = useRef<string | null>(null);
+  
+  useEffect(() => {
+    setCaptionLanguage(getCaptionPreference(user?.id ?? null));
+  }, [user]);
+  
+  // Save watch progress and offer to pick up where the viewer left off
+  useTrackWatchProgress(videoElement, video?.id ?? null, user?.id ?? null);
+  
+  // Connect once the player exists, since the host's playback drives it
+  const watchParty = useWatchParty(video ? partyId : null, videoElement, user?.id ?? null);
+  
+  // An invite can outlive the video the room is on; follow the room
+  useEffect(() => {
+    if (watchParty.party && partyId && watchParty.party.videoId !== videoId) {
+      navigate(getWatchPartyUrl(watchParty.party.videoId, partyId));
+    }
+  }, [watchParty.party?.videoId, partyId, videoId]);
+  const { data: savedProgress } = useWatchProgress(user?.id ?? null, videoId);
+  const [resumeDismissed, setResumeDismissed] = useState(false);
+  const resumePosition = savedProgress && !savedProgress.completed && savedProgress.position > 5
+    && savedProgress.position < savedProgress.duration - 5
+    ? savedProgress.position
+    : null;
+  
+  useEffect(() => {
+    setResumeDismissed(false);
+    setClipRange(null);
+    setLoop({ a: null, b: null });
+    zoomPan.reset();
+  }, [videoId]);
+  
+  // A link to a specific moment wins over the resume offer
+  useEffect(() => {
+    if (!videoId) return;
+    
+    fragmentEndRef.current = endParam !== null && endParam > (startParam ?? 0) ? endParam : null;
+    if (startParam !== null) {
+      pendingStartRef.current = startParam;
+      setResumeDismissed(true);
+    }
+    
+    // In a watch party the host decides where everyone is
+    if (partyId) {
+      setResumeDismissed(true);
+    }
+  }, [videoId]);
+  
+  // Continue from the mini-player when it was expanded back to this page
+  useEffect(() => {
+    if (!videoId) return;
+    
+    const handoffTime = takeMiniPlayerHandoff(videoId);
+    if (handoffTime !== null) {
+      pendingStartRef.current = handoffTime;
+      setResumeDismissed(true);
+    }
+  }, [videoId, takeMiniPlayerHandoff]);
   
-  // Hide controls timer
+  // Hand playback to the mini-player when leaving for a non-watch page.
+  // A layout effect so the element is checked before React detaches it
+  useLayoutEffect(() => {
+    if (!video || !videoElement) return;
+    
+    return () => {
+      const wasPlaying = !videoElement.paused && !videoElement.ended;
+      if (!embed && wasPlaying && !window.location.pathname.startsWith('/watch/')) {
+        openMiniPlayer(video, videoElement.currentTime);
+      }
+    };
+  }, [video, videoElement, openMiniPlayer]);
+  
+  // The offer goes away on its own once playback is under way
   useEffect(() => {
-    if (isPlaying) {
+    if (resumePosition === null || resumeDismissed) return;
+    
+    const timer = setTimeout(() => setResumeDismissed(true), 10000);
+    return () => clearTimeout(timer);
+  }, [resumePosition, resumeDismissed]);
+  
+  // Apply preferences now and again whenever a new source resets the element
+  useEffect(() => {
+    if (!videoElement) return;
+    
+    const applyPreferences = () => {
+      videoElement.volume = preferences.volume;
+      videoElement.muted = preferences.muted;
+      videoElement.defaultPlaybackRate = preferences.playbackRate;
+      videoElement.playbackRate = practiceRate ?? preferences.playbackRate;
+      videoElement.loop = preferences.loop || (!!playlist && repeat === 'one');
+    };
+    
+    applyPreferences();
+    videoElement.addEventListener('loadedmetadata', applyPreferences);
+    return () => videoElement.removeEventListener('loadedmetadata', applyPreferences);
+  }, [videoElement, preferences.volume, preferences.muted, preferences.playbackRate, preferences.loop, playlist, repeat, practiceRate]);
+  
+  // Brief on-screen feedback for keyboard actions
+  useEffect(() => {
+    if (!playerNotice) return;
+    
+    const timer = setTimeout(() => setPlayerNotice(null), 800);
+    return () => clearTimeout(timer);
+  }, [playerNotice]);
+  
+  // Fullscreen can also be left with the back gesture or Esc, not just our button
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      const fullscreen = !!document.fullscreenElement;
+      setIsFullscreen(fullscreen);
+      if (!fullscreen) {
+        unlockOrientation();
+      }
+    };
+    
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+  
+  // Hide controls timer, held off while a live comment is being written
+  useEffect(() => {
+    if (isPlaying && !composerActive) {
       const timer = setTimeout(() => {
         setControlsVisible(false);
       }, 3000);
       
       return () => clearTimeout(timer);
     }
-  }, [isPlaying, controlsVisible]);
+  }, [isPlaying, controlsVisible, composerActive]);
   
   // Handle video events
   useEffect(() => {
-    const videoElement = videoRef.current;
     if (!videoElement) return;
     
     const handleTimeUpdate = () => {
       setCurrentTime(videoElement.currentTime);
+      
+      // Stop once at the end of a shared fragment; playing on is allowed
+      if (fragmentEndRef.current !== null && videoElement.currentTime >= fragmentEndRef.current) {
+        fragmentEndRef.current = null;
+        videoElement.pause();
+        setControlsVisible(true);
+      }
     };
     
     const handleDurationChange = () => {
@@ -65,26 +353,97 @@ const VideoPlayer = () => {
     };
     
     const handleEnded = () => {
-      setIsPlaying(false);
+      setHasEnded(true);
+    };
+    
+    // Replaying or seeking back from the end screen dismisses it
+    const handlePlay = () => {
+      setHasEnded(false);
+    };
+    
+    const handleSeeked = () => {
+      setSeekVersion(version => version + 1);
+    };
+    
+    const applyPendingStart = () => {
+      if (pendingStartRef.current !== null) {
+        videoElement.currentTime = pendingStartRef.current;
+        pendingStartRef.current = null;
+      }
     };
     
     videoElement.addEventListener('timeupdate', handleTimeUpdate);
     videoElement.addEventListener('durationchange', handleDurationChange);
     videoElement.addEventListener('ended', handleEnded);
+    videoElement.addEventListener('play', handlePlay);
+    videoElement.addEventListener('seeked', handleSeeked);
+    videoElement.addEventListener('loadedmetadata', applyPendingStart);
+    
+    if (videoElement.readyState >= 1) {
+      applyPendingStart();
+    }
     
     return () => {
       videoElement.removeEventListener('timeupdate', handleTimeUpdate);
       videoElement.removeEventListener('durationchange', handleDurationChange);
       videoElement.removeEventListener('ended', handleEnded);
+      videoElement.removeEventListener('play', handlePlay);
+      videoElement.removeEventListener('seeked', handleSeeked);
+      videoElement.removeEventListener('loadedmetadata', applyPendingStart);
     };
-  }, []);
+  }, [videoElement]);
   
-  // Auto-play when video loads
+  // Practice loop: jump back to A on reaching B. Checked every frame, since
+  // timeupdate only fires a few times a second and would overshoot short loops
   useEffect(() => {
-    if (video && videoRef.current) {
+    if (!videoElement || !isLoopActive(loop)) return;
+    
+    const { a, b } = loop;
+    const hasFrameCallback = 'requestVideoFrameCallback' in videoElement;
+    let handle: number;
+    
+    const check = () => {
+      if (videoElement.currentTime >= b) {
+        videoElement.currentTime = a;
+      }
+      handle = hasFrameCallback ? videoElement.requestVideoFrameCallback(check) : requestAnimationFrame(check);
+    };
+    check();
+    
+    return () => {
+      if (hasFrameCallback) {
+        videoElement.cancelVideoFrameCallback(handle);
+      } else {
+        cancelAnimationFrame(handle);
+      }
+    };
+  }, [videoElement, loop]);
+  
+  // Auto-play when video loads. Embeds wait to be asked, and start muted
+  // rather than not at all when the host page blocks sound. Keyed on the id,
+  // so refetching the video's details doesn't start it again
+  useEffect(() => {
+    if (!videoElement || !videoId) return;
+    
+    if (embed && embedAutoplay) {
+      const timer = setTimeout(() => {
+        videoElement.play().catch(() => {
+          // Muted through the player's state, so the controls show it and unmuting works
+          videoElement.muted = true;
+          changePreferences({ muted: true });
+          videoElement.play().catch(err => {
+            console.error('Failed to auto-play:', err);
+          });
+        });
+      }, 500);
+      
+      return () => clearTimeout(timer);
+    }
+    
+    if (!embed) {
       // A small delay to ensure the video is loaded
       const timer = setTimeout(() => {
-        videoRef.current?.play().catch(err => {
+        videoElement.play().catch(err => {
           console.error('Failed to auto-play:', err);
           toast({
             title: "Auto-play blocked",
@@ -92,37 +451,79 @@ const VideoPlayer = () => {
             variant: "default"
           });
         });
-        setIsPlaying(true);
       }, 500);
       
       return () => clearTimeout(timer);
     }
-  }, [video, toast]);
+  }, [videoElement, videoId, toast]);
+  
+  // Chapters from the upload or the description
+  const chapters = video ? getVideoChapters(video) : [];
+  const activeChapterIndex = getChapterIndexAt(chapters, currentTime);
+  const activeChapter = activeChapterIndex >= 0 ? chapters[activeChapterIndex] : null;
+  
+  // Sprite thumbnails for scrubbing
+  const { data: storyboardFrames = [] } = useStoryboard(video?.storyboardUrl);
   
   // Get related videos
   const relatedVideos = (allVideos && video && Array.isArray(allVideos))
     ? addMatchesToVideos(getRelatedVideos(video, allVideos))
     : [];
   
+  // Up Next: the playlist when in playlist mode, else the viewer's queue,
+  // then the top "More Like This" pick
+  const { queue, removeFromQueue } = useWatchQueue();
+  const queuedNext = queue.find(item => item.id !== videoId) || null;
+  const playlistNextId = playlist && videoId
+    ? getNextPlaylistVideoId(shuffle ? shuffledOrder : playlistVideoIds, videoId, repeat)
+    : null;
+  const nextVideo = playlist
+    ? playlist.videos.find(item => item.id === playlistNextId) || null
+    : queuedNext || relatedVideos[0] || null;
+  const nextVideoUrl = nextVideo
+    ? (playlist ? getPlaylistWatchUrl(nextVideo.id, playlist.id) : `/watch/${nextVideo.id}`)
+    : null;
+  
+  // Reaching a queued video takes it off the queue
+  useEffect(() => {
+    if (videoId) {
+      removeFromQueue(videoId);
+    }
+    setHasEnded(false);
+  }, [videoId, removeFromQueue]);
+  
+  // Start the countdown when a video finishes, if autoplay is on
+  useEffect(() => {
+    setUpNextCountdown(hasEnded && preferences.autoplay && !embed && !partyId ? UP_NEXT_COUNTDOWN : null);
+  }, [hasEnded, preferences.autoplay, embed, partyId]);
+  
+  useEffect(() => {
+    if (upNextCountdown === null || !nextVideoUrl) return;
+    
+    if (upNextCountdown === 0) {
+      navigate(nextVideoUrl);
+      return;
+    }
+    
+    const timer = setTimeout(() => setUpNextCountdown(upNextCountdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [upNextCountdown, nextVideoUrl, navigate]);
+  
   const togglePlay = () => {
     if (videoRef.current) {
-      if (isPlaying) {
-        videoRef.current.pause();
-      } else {
+      if (videoRef.current.paused) {
         videoRef.current.play().catch(err => {
           console.error('Failed to play:', err);
         });
+      } else {
+        videoRef.current.pause();
       }
-      setIsPlaying(!isPlaying);
     }
     setControlsVisible(true);
   };
   
   const toggleMute = () => {
-    if (videoRef.current) {
-      videoRef.current.muted = !isMuted;
-      setIsMuted(!isMuted);
-    }
+    changePreferences({ muted: !preferences.muted });
     setControlsVisible(true);
   };
   
@@ -134,13 +535,22 @@ const VideoPlayer = () => {
     setControlsVisible(true);
   };
   
+  // Track the pointer (or finger) over the seek bar for the hover preview
+  const handleSeekHover = (clientX: number) => {
+    if (!seekBarRef.current || !duration) return;
+    
+    const rect = seekBarRef.current.getBoundingClientRect();
+    const position = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    setSeekHover({ time: position * duration, position });
+    setControlsVisible(true);
+  };
+  
   const handleReplay = () => {
     if (videoRef.current) {
       videoRef.current.currentTime = 0;
       videoRef.current.play().catch(err => {
         console.error('Failed to replay:', err);
       });
-      setIsPlaying(true);
     }
     setControlsVisible(true);
   };
@@ -153,13 +563,227 @@ const VideoPlayer = () => {
         console.error('Error exiting fullscreen:', err);
       });
     } else {
-      playerRef.current.requestFullscreen().catch(err => {
+      playerRef.current.requestFullscreen().then(() => {
+        // Turn phones sideways for landscape videos
+        const videoElement = videoRef.current;
+        if (isMobile && videoElement && videoElement.videoWidth >= videoElement.videoHeight) {
+          lockOrientation('landscape');
+        }
+      }).catch(err => {
         console.error('Error entering fullscreen:', err);
       });
     }
     setControlsVisible(true);
   };
   
+  const handlePictureInPicture = () => {
+    if (!videoRef.current) return;
+    
+    togglePictureInPicture(videoRef.current).catch(err => {
+      console.error('Picture-in-Picture failed:', err);
+    });
+  };
+  
+  // Clip mode starts with a short range from the current position
+  const toggleClipMode = () => {
+    if (clipRange) {
+      setClipRange(null);
+    } else {
+      const end = currentTime + CLIP_DEFAULT_DURATION;
+      setClipRange({ start: currentTime, end: duration ? Math.min(end, duration) : end });
+    }
+    setControlsVisible(true);
+  };
+  
+  // Send what we know about the failure and the viewer's setup
+  const handleReportPlaybackProblem = () => {
+    const videoElement = videoRef.current;
+    if (!video || !videoElement) return;
+    
+    const connection = (navigator as Navigator & { connection?: { effectiveType?: string } }).connection;
+    reportPlaybackProblemMutation.mutate({
+      videoId: video.id,
+      errorKind: playbackFailure?.kind ?? null,
+      errorMessage: playbackFailure?.message ?? null,
+      errorCode: playbackFailure?.code ?? null,
+      streamType,
+      rendition: activeHeight ?? (videoElement.videoHeight || null),
+      position: videoElement.currentTime,
+      networkState: videoElement.networkState,
+      readyState: videoElement.readyState,
+      connection: connection?.effectiveType ?? null,
+      userAgent: navigator.userAgent,
+      url: window.location.href,
+    }, {
+      onSuccess: () => {
+        setHasReportedProblem(true);
+        toast({
+          title: "Problem reported",
+          description: "Thanks, this helps us fix playback issues.",
+        });
+      },
+      onError: () => {
+        toast({
+          title: "Error",
+          description: "Failed to send the report",
+          variant: "destructive"
+        });
+      },
+    });
+  };
+  
+  // Leaving practice mode drops its loop, speed and zoom so the normal player is untouched
+  const togglePracticeMode = () => {
+    if (practiceMode) {
+      setLoop({ a: null, b: null });
+      setPracticeRate(null);
+      zoomPan.reset();
+    }
+    setPracticeMode(!practiceMode);
+    setControlsVisible(true);
+  };
+  
+  // Set a loop marker at the current position; a B before A swaps them
+  const setLoopPoint = (point: 'a' | 'b') => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    const next = { ...loop, [point]: time };
+    if (next.a !== null && next.b !== null && next.b < next.a) {
+      setLoop({ a: next.b, b: next.a });
+    } else {
+      setLoop(next);
+    }
+  };
+  
+  const stepFrame = (direction: 1 | -1) => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !videoElement.paused) return;
+    
+    const target = videoElement.currentTime + direction / PRACTICE_FRAME_RATE;
+    videoElement.currentTime = Math.max(0, Math.min(target, duration || target));
+    setControlsVisible(true);
+  };
+  
+  const toggleLiveComments = () => {
+    updatePreferences({ liveComments: !preferences.liveComments });
+    setControlsVisible(true);
+  };
+  
+  const handlePostLiveComment = async (content: string, timestamp: number) => {
+    if (!videoId) return;
+    
+    try {
+      await postLiveCommentMutation.mutateAsync({ videoId, content, timestamp });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to post comment. Please try again.",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+  
+  const handleReportLiveComment = (comment: LiveComment) => {
+    reportLiveCommentMutation.mutate({ commentId: comment.id }, {
+      onSuccess: () => {
+        toast({
+          title: "Comment reported",
+          description: "Thanks, our moderators will take a look.",
+        });
+      },
+      onError: () => {
+        toast({
+          title: "Error",
+          description: "Failed to report comment",
+          variant: "destructive"
+        });
+      },
+    });
+  };
+  
+  const handleResume = () => {
+    if (videoRef.current && resumePosition !== null) {
+      videoRef.current.currentTime = resumePosition;
+      videoRef.current.play().catch(err => {
+        console.error('Failed to play:', err);
+      });
+    }
+    setResumeDismissed(true);
+  };
+  
+  const seekTo = (seconds: number) => {
+    const videoElement = videoRef.current;
+    if (videoElement) {
+      // Before metadata loads, hold the position until it can be applied
+      if (videoElement.readyState >= 1) {
+        videoElement.currentTime = seconds;
+      } else {
+        pendingStartRef.current = seconds;
+      }
+    }
+    setControlsVisible(true);
+  };
+  
+  // Seek from outside the player (chapters, timestamps in text, deep links)
+  // and make sure the viewer can see the result
+  const seekAndReveal = (seconds: number) => {
+    seekTo(seconds);
+    if (videoRef.current?.paused) {
+      togglePlay();
+    }
+    playerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+  
+  const handleChapterSelect = (chapter: Chapter) => {
+    seekAndReveal(chapter.start);
+  };
+  
+  const seekBy = (seconds: number) => {
+    if (videoRef.current) {
+      const target = videoRef.current.currentTime + seconds;
+      videoRef.current.currentTime = Math.max(0, Math.min(target, duration || target));
+      setPlayerNotice(`${seconds > 0 ? '+' : ''}${seconds}s`);
+    }
+    setControlsVisible(true);
+  };
+  
+  // In practice mode the speed keys change the practice speed instead of the saved one
+  const changePlaybackRate = (direction: 1 | -1) => {
+    const rate = practiceRate ?? preferences.playbackRate;
+    const index = playbackRates.indexOf(rate);
+    const nextRate = index === -1
+      ? 1
+      : playbackRates[Math.max(0, Math.min(playbackRates.length - 1, index + direction))];
+    if (practiceMode) {
+      setPracticeRate(nextRate);
+    } else {
+      updatePreferences({ playbackRate: nextRate });
+    }
+    setPlayerNotice(`${nextRate}x`);
+  };
+  
+  const toggleCaptions = () => {
+    if (captionTracks.length === 0) return;
+    
+    if (captionLanguage) {
+      handleCaptionSelect(null);
+    } else {
+      const language = lastCaptionLanguageRef.current && captionTracks.some(track => track.language === lastCaptionLanguageRef.current)
+        ? lastCaptionLanguageRef.current
+        : captionTracks[0].language;
+      handleCaptionSelect(language);
+    }
+  };
+  
+  const handleCaptionSelect = (language: string | null) => {
+    if (language) {
+      lastCaptionLanguageRef.current = language;
+    }
+    setCaptionLanguage(language);
+    setCaptionPreference(user?.id ?? null, language);
+    setControlsVisible(true);
+  };
+  
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
@@ -170,12 +794,56 @@ const VideoPlayer = () => {
     navigate('/');
   };
   
+  const touchGestures = useTouchGestures({
+    duration,
+    verticalSwipes: isFullscreen,
+    getCurrentTime: () => videoRef.current?.currentTime ?? currentTime,
+    getVolume: () => preferences.muted ? 0 : preferences.volume,
+    getBrightness: () => brightness,
+    onTap: () => setControlsVisible(visible => !visible),
+    onDoubleTap: (side) => seekBy(side === 'left' ? -10 : 10),
+    onScrub: (time) => seekTo(time),
+    onVolumeChange: (volume) => {
+      changePreferences({ volume, muted: volume === 0 });
+      setPlayerNotice(`Volume ${Math.round(volume * 100)}%`);
+    },
+    onBrightnessChange: (value) => {
+      setBrightness(value);
+      setPlayerNotice(`Brightness ${Math.round(value * 100)}%`);
+    },
+  });
+  
+  usePlayerShortcuts({
+    togglePlay,
+    rewind: () => seekBy(-10),
+    fastForward: () => seekBy(10),
+    seekBack: () => seekBy(-5),
+    seekForward: () => seekBy(5),
+    toggleMute,
+    toggleFullscreen,
+    toggleCaptions,
+    jumpToPercent: (percent = 0) => {
+      if (videoRef.current && duration) {
+        videoRef.current.currentTime = (duration * percent) / 100;
+      }
+      setControlsVisible(true);
+    },
+    slower: () => changePlaybackRate(-1),
+    faster: () => changePlaybackRate(1),
+    frameBack: practiceMode ? () => stepFrame(-1) : undefined,
+    frameForward: practiceMode ? () => stepFrame(1) : undefined,
+    toggleHelp: () => setShowShortcutsHelp(show => !show),
+  }, !!video);
+  
+  // postMessage control for pages that frame the embed
+  useEmbedApi(videoElement, video?.id ?? null, { seekTo, changePreferences }, embed);
+  
   // Show loading state
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background text-foreground">
-        <Navbar />
-        <div className="mt-16 relative w-full h-screen bg-black">
+        {!embed && <Navbar />}
+        <div className={cn('relative w-full h-screen bg-black', !embed && 'mt-16')}>
           <Skeleton className="w-full h-full" />
         </div>
       </div>
@@ -186,11 +854,41 @@ const VideoPlayer = () => {
   if (error || !video) {
     return (
       <div className="min-h-screen bg-background text-foreground">
-        <Navbar />
-        <div className="mt-16 flex items-center justify-center h-screen">
+        {!embed && <Navbar />}
+        <div className={cn('flex items-center justify-center h-screen', !embed && 'mt-16')}>
           <div className="text-center">
             <h2 className="text-2xl font-bold mb-4">Video not found</h2>
-            <Button onClick={handleBack}>Go Back</Button>
+            {!embed && <Button onClick={handleBack}>Go Back</Button>}
+          </div>
+        </div>
+      </div>
+    );
+  }
+  
+  // Nothing to play until transcoding finishes; useVideo checks back while it runs
+  if (!isVideoReady(video)) {
+    const isProcessing = video.status === 'processing';
+    const isOwner = !!user && user.id === video.userId;
+    
+    return (
+      <div className="min-h-screen bg-background text-foreground">
+        {!embed && <Navbar />}
+        <div className={cn('flex items-center justify-center h-screen', !embed && 'mt-16')}>
+          <div className="text-center max-w-md px-4">
+            {isProcessing ? (
+              <Loader2 className="h-10 w-10 mx-auto mb-4 animate-spin text-primary" />
+            ) : (
+              <AlertCircle className="h-10 w-10 mx-auto mb-4 text-red-500" />
+            )}
+            <h2 className="text-2xl font-bold mb-2">
+              {isProcessing ? 'This video is still processing' : "This video couldn't be processed"}
+            </h2>
+            <p className="text-muted-foreground mb-4">
+              {isProcessing
+                ? "It will start playing here as soon as it's ready."
+                : (isOwner && video.failureReason) || "It isn't available to watch."}
+            </p>
+            {!embed && <Button onClick={handleBack}>Go Back</Button>}
           </div>
         </div>
       </div>
@@ -198,25 +896,107 @@ const VideoPlayer = () => {
   }
   
   return (
-    <>
+    <PlayerSeekContext.Provider value={{ seekTo: seekAndReveal }}>
       <Helmet>
         <title>{video.title} - GorillaFlix</title>
         <meta name="description" content={video.description || 'Watch this Gorilla Tag video on GorillaFlix'} />
       </Helmet>
       
-      <div className="min-h-screen bg-background text-foreground">
-        <Navbar />
+      <div className={embed ? 'h-screen overflow-hidden bg-black' : 'min-h-screen bg-background text-foreground'}>
+        {!embed && <Navbar />}
         
-        <div className="mt-16 relative w-full h-screen bg-black" ref={playerRef}>
+        <div className={cn('relative w-full h-screen bg-black', !embed && 'mt-16')} ref={playerRef}>
           {/* Video element */}
-          <video
-            ref={videoRef}
-            src={getVideoUrl(video)}
-            className="w-full h-full object-contain"
-            poster={getThumbnailUrl(video)}
-            onClick={togglePlay}
-            onMouseMove={() => setControlsVisible(true)}
-          />
+          <div
+            className={cn('w-full h-full overflow-hidden', isFullscreen ? 'touch-none' : 'touch-pan-y')}
+            {...touchGestures.handlers}
+          >
+            <video
+              ref={attachVideo}
+              className="w-full h-full object-contain"
+              style={{
+                ...(practiceMode ? zoomPan.style : {}),
+                ...(brightness !== 1 ? { filter: `brightness(${brightness})` } : {}),
+              }}
+              poster={getThumbnailUrl(video)}
+              onPlay={() => setIsPlaying(true)}
+              onPause={() => setIsPlaying(false)}
+              onClick={() => {
+                if (!zoomPan.wasDragged()) togglePlay();
+              }}
+              onMouseDown={practiceMode ? zoomPan.handlers.onMouseDown : undefined}
+              onMouseUp={practiceMode ? zoomPan.handlers.onMouseUp : undefined}
+              onMouseLeave={practiceMode ? zoomPan.handlers.onMouseLeave : undefined}
+              onMouseMove={(e) => {
+                setControlsVisible(true);
+                if (practiceMode) zoomPan.handlers.onMouseMove(e);
+              }}
+            >
+              {captionTracks.map(track => (
+                <track
+                  key={track.id}
+                  kind="subtitles"
+                  src={track.url}
+                  srcLang={track.language}
+                  label={track.label}
+                />
+              ))}
+            </video>
+          </div>
+          
+          {preferences.liveComments && (
+            <LiveCommentOverlay
+              comments={liveComments}
+              currentTime={currentTime}
+              isPlaying={isPlaying}
+              density={preferences.liveCommentDensity}
+              seekVersion={seekVersion}
+              onReport={handleReportLiveComment}
+            />
+          )}
+          
+          {/* Stays mounted while the controls are hidden so a draft isn't lost */}
+          {preferences.liveComments && user && (
+            <div
+              className={cn(
+                'absolute bottom-32 right-4 transition-opacity duration-300',
+                controlsVisible ? 'opacity-100' : 'opacity-0 pointer-events-none'
+              )}
+            >
+              <LiveCommentComposer
+                currentTime={currentTime}
+                isPosting={postLiveCommentMutation.isPending}
+                onPost={handlePostLiveComment}
+                onActiveChange={setComposerActive}
+              />
+            </div>
+          )}
+          
+          {clipRange && (
+            <div className="absolute bottom-36 left-4">
+              <ClipEditor
+                videoId={video.id}
+                currentTime={currentTime}
+                range={clipRange}
+                onRangeChange={setClipRange}
+                onClose={() => setClipRange(null)}
+                formatTime={formatTime}
+              />
+            </div>
+          )}
+          
+          {/* Caption overlay, drawn inside the player so it survives fullscreen */}
+          {captionText && (
+            <div
+              className={`absolute left-1/2 -translate-x-1/2 max-w-[80%] text-center pointer-events-none transition-all duration-300 ${
+                controlsVisible ? 'bottom-36' : 'bottom-12'
+              }`}
+            >
+              <span className="whitespace-pre-line bg-black/75 text-white text-lg md:text-2xl leading-snug px-3 py-1 rounded box-decoration-clone">
+                {captionText}
+              </span>
+            </div>
+          )}
           
           {/* Top controls with Netflix-style gradient */}
           <div 
@@ -224,18 +1004,106 @@ const VideoPlayer = () => {
               controlsVisible ? 'opacity-100' : 'opacity-0'
             }`}
           >
-            <Button 
-              variant="ghost" 
-              size="icon" 
-              className="text-white hover:bg-white/10" 
-              onClick={handleBack}
-            >
-              <ArrowLeft size={24} />
-            </Button>
-            <h3 className="text-white text-xl font-bold tracking-wider">{video.title}</h3>
-            <div></div>
+            {embed ? (
+              <a
+                href={`/watch/${video.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-white text-xl font-bold tracking-wider hover:underline truncate"
+              >
+                {video.title}
+              </a>
+            ) : (
+              <>
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  className="text-white hover:bg-white/10" 
+                  onClick={handleBack}
+                >
+                  <ArrowLeft size={24} />
+                </Button>
+                <h3 className="text-white text-xl font-bold tracking-wider">{video.title}</h3>
+                <div></div>
+              </>
+            )}
           </div>
           
+          {/* Up Next end screen */}
+          {!embed && hasEnded && nextVideo && nextVideoUrl && (
+            <UpNextOverlay
+              video={nextVideo}
+              countdown={upNextCountdown}
+              fromQueue={!playlist && nextVideo === queuedNext}
+              onPlay={() => navigate(nextVideoUrl)}
+              onCancel={() => setUpNextCountdown(null)}
+              onReplay={handleReplay}
+            />
+          )}
+          
+          {/* Resume prompt */}
+          {resumePosition !== null && !resumeDismissed && (
+            <div className="absolute top-28 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-black/80 border border-slate-700 rounded-md px-4 py-2 text-white text-sm">
+              <span>Resume from {formatTime(resumePosition)}?</span>
+              <Button size="sm" className="h-8 bg-primary hover:bg-primary/90 text-white" onClick={handleResume}>
+                Resume
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 text-slate-300 hover:bg-white/10"
+                onClick={() => setResumeDismissed(true)}
+              >
+                Start over
+              </Button>
+            </div>
+          )}
+          
+          {practiceMode && (
+            <div className="absolute bottom-32 left-1/2 -translate-x-1/2">
+              <PracticeToolbar
+                loop={loop}
+                playbackRate={practiceRate ?? preferences.playbackRate}
+                zoom={zoomPan.scale}
+                isPlaying={isPlaying}
+                onSetA={() => setLoopPoint('a')}
+                onSetB={() => setLoopPoint('b')}
+                onClearLoop={() => setLoop({ a: null, b: null })}
+                onStepFrame={stepFrame}
+                onRateChange={setPracticeRate}
+                onZoomChange={(zoom) => zoomPan.setScale(zoom, videoRef.current)}
+                formatTime={formatTime}
+              />
+            </div>
+          )}
+          
+          <PlayerErrorOverlay
+            failure={playbackFailure}
+            isRecovering={isRecovering}
+            isReporting={reportPlaybackProblemMutation.isPending}
+            hasReported={hasReportedProblem}
+            onRetry={retryPlayback}
+            onReport={handleReportPlaybackProblem}
+          />
+          
+          {/* Position while scrubbing with a finger */}
+          {touchGestures.scrubTime !== null && (
+            <div className="absolute top-1/3 left-1/2 -translate-x-1/2 rounded-md bg-black/70 px-4 py-2 text-lg font-semibold text-white pointer-events-none">
+              {formatTime(touchGestures.scrubTime)} / {formatTime(duration)}
+            </div>
+          )}
+          
+          {/* Keyboard action feedback */}
+          {playerNotice && (
+            <div className="absolute top-1/3 left-1/2 -translate-x-1/2 rounded-md bg-black/70 px-4 py-2 text-lg font-semibold text-white pointer-events-none">
+              {playerNotice}
+            </div>
+          )}
+          
+          {showShortcutsHelp && (
+            <ShortcutsHelpOverlay onClose={() => setShowShortcutsHelp(false)} />
+          )}
+          
           {/* Center play/pause button */}
           {!isPlaying && (
             <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
@@ -256,20 +1124,81 @@ const VideoPlayer = () => {
             }`}
           >
             {/* Progress bar */}
-            <div className="w-full bg-gray-600 h-1 rounded-full mb-3">
+            <div className={cn('w-full bg-gray-600 rounded-full mb-3', isMobile ? 'h-1.5' : 'h-1')}>
               <input
                 type="range"
                 min="0"
                 max={duration || 100}
                 value={currentTime}
                 onChange={handleSeek}
-                className="absolute w-full h-1 opacity-0 cursor-pointer"
-                style={{ bottom: '26px' }}
+                onMouseMove={(e) => handleSeekHover(e.clientX)}
+                onMouseLeave={() => setSeekHover(null)}
+                onTouchMove={(e) => handleSeekHover(e.touches[0].clientX)}
+                onTouchEnd={() => setSeekHover(null)}
+                className={cn('absolute w-full opacity-0 cursor-pointer', isMobile ? 'h-8' : 'h-1')}
+                style={{ bottom: isMobile ? '12px' : '26px' }}
               />
-              <div 
-                className="bg-primary h-full rounded-full" 
-                style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}
-              ></div>
+              <div className="relative h-full" ref={seekBarRef}>
+                {seekHover && (
+                  <SeekPreview
+                    time={seekHover.time}
+                    position={seekHover.position}
+                    frame={getStoryboardFrameAt(storyboardFrames, seekHover.time)}
+                    label={chapters[getChapterIndexAt(chapters, seekHover.time)]?.title}
+                    formatTime={formatTime}
+                  />
+                )}
+                <div 
+                  className="bg-primary h-full rounded-full" 
+                  style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}
+                ></div>
+                
+                {/* A visible thumb to aim for on touch screens */}
+                {isMobile && (
+                  <div
+                    className="absolute top-1/2 h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary pointer-events-none"
+                    style={{ left: `${(currentTime / (duration || 1)) * 100}%` }}
+                  ></div>
+                )}
+                
+                {/* Range being cut into a clip */}
+                {duration > 0 && clipRange && clipRange.end > clipRange.start && (
+                  <div
+                    className="absolute top-0 h-full bg-yellow-400/80 pointer-events-none"
+                    style={{
+                      left: `${(clipRange.start / duration) * 100}%`,
+                      width: `${((clipRange.end - clipRange.start) / duration) * 100}%`,
+                    }}
+                  ></div>
+                )}
+                
+                {/* Practice loop, with its A and B markers */}
+                {duration > 0 && isLoopActive(loop) && (
+                  <div
+                    className="absolute top-0 h-full bg-sky-400/60 pointer-events-none"
+                    style={{
+                      left: `${(loop.a / duration) * 100}%`,
+                      width: `${((loop.b - loop.a) / duration) * 100}%`,
+                    }}
+                  ></div>
+                )}
+                {duration > 0 && ([loop.a, loop.b] as const).map((point, index) => point !== null && (
+                  <div
+                    key={index}
+                    className="absolute -top-1 h-3 w-0.5 bg-sky-400 pointer-events-none"
+                    style={{ left: `${(point / duration) * 100}%` }}
+                  ></div>
+                ))}
+                
+                {/* Chapter boundaries split the bar into segments */}
+                {duration > 0 && chapters.slice(1).map(chapter => (
+                  <div
+                    key={chapter.start}
+                    className="absolute top-0 h-full w-0.5 bg-black pointer-events-none"
+                    style={{ left: `${(chapter.start / duration) * 100}%` }}
+                  ></div>
+                ))}
+              </div>
             </div>
             
             {/* Control buttons */}
@@ -297,27 +1226,72 @@ const VideoPlayer = () => {
                   className="text-white" 
                   onClick={toggleMute}
                 >
-                  {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+                  {preferences.muted || preferences.volume === 0 ? <VolumeX size={20} /> : <Volume2 size={20} />}
                 </Button>
                 <span className="text-white text-sm">
                   {formatTime(currentTime)} / {formatTime(duration)}
                 </span>
+                {activeChapter && (
+                  <span className="hidden md:inline text-white/80 text-sm truncate max-w-[16rem]">
+                    • {activeChapter.title}
+                  </span>
+                )}
               </div>
               <div className="flex items-center space-x-4">
+                <CaptionsMenu
+                  tracks={captionTracks}
+                  selectedLanguage={captionLanguage}
+                  onSelect={handleCaptionSelect}
+                />
                 <Button 
                   variant="ghost" 
                   size="icon" 
-                  className="text-white"
+                  className={preferences.liveComments ? 'text-primary' : 'text-white'}
+                  onClick={toggleLiveComments}
+                  title="Live comments"
                 >
-                  <Captions size={20} />
+                  <MessageSquare size={20} />
                 </Button>
                 <Button 
                   variant="ghost" 
                   size="icon" 
-                  className="text-white"
+                  className={practiceMode ? 'text-primary' : 'text-white'}
+                  onClick={togglePracticeMode}
+                  title="Practice mode"
                 >
-                  <MessageSquare size={20} />
+                  <GraduationCap size={20} />
                 </Button>
+                {user && !embed && (
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className={clipRange ? 'text-primary' : 'text-white'}
+                    onClick={toggleClipMode}
+                    title="Clip"
+                  >
+                    <Scissors size={20} />
+                  </Button>
+                )}
+                <PlayerSettingsMenu
+                  preferences={preferences}
+                  onChange={changePreferences}
+                />
+                <QualityMenu
+                  levels={levels}
+                  selectedLevel={selectedLevel}
+                  activeLevel={activeLevel}
+                  onSelect={selectLevel}
+                />
+                {isPictureInPictureSupported() && (
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="text-white" 
+                    onClick={handlePictureInPicture}
+                  >
+                    <PictureInPicture2 size={20} />
+                  </Button>
+                )}
                 <Button 
                   variant="ghost" 
                   size="icon" 
@@ -331,73 +1305,136 @@ const VideoPlayer = () => {
           </div>
         </div>
         
-        {/* Video details and related videos - Netflix style */}
-        <div className="p-4 md:p-12 bg-background">
-          <div className="mb-12">
-            <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
-              <h1 className="text-2xl md:text-4xl font-bold tracking-wider text-slate-100">{video.title}</h1>
-              <div className="flex items-center gap-6">
-                <div className="flex gap-2">
-                  <LikeButton 
-                    videoId={video.id} 
-                    initialLikes={video.likes || 0} 
-                    size="md" 
-                    showCount={true}
-                  />
-                  <DislikeButton 
-                    videoId={video.id} 
-                    initialDislikes={video.dislikes || 0} 
-                    size="md" 
-                    showCount={true}
-                  />
-                  <ModerateButton
-                    videoId={video.id}
-                    videoTitle={video.title}
-                    size="md"
-                    className="ml-2"
-                  />
-                  <ShareButton
-                    video={video}
-                    size="md"
-                    className="ml-2"
-                  />
+        {!embed && (
+          <>
+            {/* Video details and related videos - Netflix style */}
+            <div className="p-4 md:p-12 bg-background">
+              <div className="mb-12">
+                <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
+                  <h1 className="text-2xl md:text-4xl font-bold tracking-wider text-slate-100">{video.title}</h1>
+                  <div className="flex items-center gap-6">
+                    <div className="flex gap-2">
+                      <LikeButton 
+                        videoId={video.id} 
+                        initialLikes={video.likes || 0} 
+                        size="md" 
+                        showCount={true}
+                      />
+                      <DislikeButton 
+                        videoId={video.id} 
+                        initialDislikes={video.dislikes || 0} 
+                        size="md" 
+                        showCount={true}
+                      />
+                      <ModerateButton
+                        videoId={video.id}
+                        videoTitle={video.title}
+                        size="md"
+                        className="ml-2"
+                      />
+                      <ShareButton
+                        video={video}
+                        currentTime={currentTime}
+                        size="md"
+                        className="ml-2"
+                      />
+                      {!partyId && (
+                        <WatchPartyButton
+                          videoId={video.id}
+                          size="md"
+                          className="ml-2"
+                        />
+                      )}
+                      <AddToPlaylistButton
+                        video={video}
+                        size="md"
+                        className="ml-2"
+                      />
+                      <ManageCaptionsButton
+                        videoId={video.id}
+                        ownerId={video.userId}
+                        size="md"
+                        className="ml-2"
+                      />
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-              <div className="col-span-3">
-                <p className="text-slate-300 text-lg leading-relaxed mb-4">{video.description}</p>
-                <div className="flex flex-wrap gap-4 items-center mt-6">
-                  <div className="text-sm bg-slate-800 py-1 px-3 rounded-md">
-                    <span className="text-slate-400">Category: </span>
-                    <span className="font-medium text-slate-100">{video.category}</span>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                  <div className="col-span-3">
+                    <p className="text-slate-300 text-lg leading-relaxed mb-4">
+                      <TimestampText text={video.description ?? ''} />
+                    </p>
+                    <div className="flex flex-wrap gap-4 items-center mt-6">
+                      <div className="text-sm bg-slate-800 py-1 px-3 rounded-md">
+                        <span className="text-slate-400">Category: </span>
+                        <span className="font-medium text-slate-100">{video.category}</span>
+                      </div>
+                      <div className="text-sm bg-slate-800 py-1 px-3 rounded-md">
+                        <span className="text-slate-400">Views: </span>
+                        <span className="font-medium text-slate-100">{video.views.toLocaleString()}</span>
+                      </div>
+                      <AdminDeleteButton videoId={video.id} size="sm" className="mt-2" />
+                    </div>
+                    <ChapterList
+                      chapters={chapters}
+                      activeIndex={activeChapterIndex}
+                      onSelect={handleChapterSelect}
+                    />
                   </div>
-                  <div className="text-sm bg-slate-800 py-1 px-3 rounded-md">
-                    <span className="text-slate-400">Views: </span>
-                    <span className="font-medium text-slate-100">{video.views.toLocaleString()}</span>
-                  </div>
-                  <AdminDeleteButton videoId={video.id} size="sm" className="mt-2" />
+              
+                  {(playlist || partyId) && (
+                    <div className="col-span-3 md:col-span-1 space-y-6">
+                      {partyId && (user ? (
+                        <WatchPartyPanel
+                          party={watchParty.party}
+                          messages={watchParty.messages}
+                          status={watchParty.status}
+                          isHost={watchParty.isHost}
+                          currentUserId={user.id}
+                          inviteUrl={`${window.location.origin}${getWatchPartyUrl(video.id, partyId)}`}
+                          onSendChat={watchParty.sendChat}
+                          onTransferHost={watchParty.transferHost}
+                          onLeave={() => navigate(`/watch/${video.id}`)}
+                        />
+                      ) : (
+                        <div className="rounded-lg border border-slate-800 bg-slate-900/60 p-4 text-sm text-slate-300">
+                          <p className="mb-3">Log in to join this watch party.</p>
+                          <Button size="sm" onClick={() => navigate('/auth')}>Log in</Button>
+                        </div>
+                      ))}
+                      {playlist && (
+                        <PlaylistPanel
+                          playlist={playlist}
+                          currentVideoId={video.id}
+                          shuffle={shuffle}
+                          repeat={repeat}
+                          onShuffleChange={setShuffle}
+                          onRepeatChange={setRepeat}
+                        />
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
-            </div>
-          </div>
           
-          {/* Comments section */}
-          <div className="mt-12 mb-12 p-6 bg-slate-900/60 rounded-lg shadow-lg border border-slate-800">
-            {videoId && <Comments videoId={videoId} />}
-          </div>
+              {/* Comments section */}
+              <div className="mt-12 mb-12 p-6 bg-slate-900/60 rounded-lg shadow-lg border border-slate-800">
+                {videoId && <Comments videoId={videoId} />}
+              </div>
 
-          {/* Related videos - Netflix style */}
-          {relatedVideos.length > 0 && (
-            <div className="mb-8">
-              <h2 className="text-2xl font-bold tracking-wider text-slate-100 mb-6">More Like This</h2>
-              <ContentRow videos={relatedVideos} />
+              {/* Related videos - Netflix style */}
+              {relatedVideos.length > 0 && (
+                <div className="mb-8">
+                  <h2 className="text-2xl font-bold tracking-wider text-slate-100 mb-6">More Like This</h2>
+                  <ContentRow videos={relatedVideos} />
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
       </div>
-    </>
+    </PlayerSeekContext.Provider>
   );
 };
 
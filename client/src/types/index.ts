@@ -1,9 +1,56 @@
 import { User, Video } from "@shared/schema";
 
-export interface VideoWithMatch extends Video {
+// Probed in the browser at upload; missing on videos uploaded before that
+export interface VideoMediaInfo {
+  duration?: number | null; // Seconds
+  width?: number | null;
+  height?: number | null;
+}
+
+export type VideoStatus = 'processing' | 'ready' | 'failed';
+
+// Set by the transcoding pipeline; videos from before it have no status and count as ready
+export interface VideoProcessingInfo {
+  status?: VideoStatus;
+  failureReason?: string | null;
+}
+
+export interface VideoWithMatch extends Video, VideoMediaInfo, VideoProcessingInfo {
   match?: number; // Match percentage for recommendations
+  progress?: number; // Fraction watched (0-1), for Continue Watching
+}
+
+export interface Chapter {
+  start: number; // Seconds
+  title: string;
 }
 
+// Optional fields served with a single video for the watch page
+export interface VideoDetails extends Video, VideoMediaInfo, VideoProcessingInfo {
+  hlsUrl?: string | null; // Master m3u8 playlist with every rendition
+  chapters?: Chapter[] | null; // Set at upload; otherwise parsed from the description
+  storyboardUrl?: string | null; // WebVTT index into the seek-preview sprite sheets
+}
+
+export interface StoryboardFrame {
+  start: number; // Seconds
+  end: number;
+  url: string; // Sprite sheet image
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface QualityLevel {
+  index: number;
+  height: number;
+  bitrate: number;
+}
+
+// How the player is getting the video: hls.js, the browser's own HLS, or the plain file
+export type StreamType = 'hls' | 'native-hls' | 'progressive';
+
 export interface Category {
   id: string;
   name: string;
@@ -16,7 +63,7 @@ export interface VideoRowProps {
 }
 
 export interface HeroBannerProps {
-  video: Video | null;
+  video: (Video & VideoMediaInfo) | null;
   loading?: boolean;
 }
 
@@ -31,3 +78,169 @@ export interface UploadModalProps {
   onClose: () => void;
   onUpload: (formData: FormData) => Promise<void>;
 }
+
+// Limits for resumable uploads, set on the server
+export interface UploadConfig {
+  maxFileSize: number; // bytes
+  chunkSize: number; // bytes
+}
+
+export interface CaptionTrack {
+  id: number;
+  videoId: number;
+  language: string; // BCP 47 code, e.g. "en"
+  label: string;
+  url: string; // WebVTT file
+}
+
+export interface WatchProgress {
+  userId: number;
+  videoId: number;
+  position: number; // Seconds
+  duration: number; // Seconds
+  completed: boolean;
+  updatedAt: string;
+}
+
+export interface ContinueWatchingEntry {
+  video: Video;
+  progress: WatchProgress;
+}
+
+export interface PlayerPreferences {
+  volume: number; // 0-1
+  muted: boolean;
+  playbackRate: number;
+  loop: boolean;
+  autoplay: boolean; // Play the next video when one ends
+  liveComments: boolean; // Show timestamped comments over the video
+  liveCommentDensity: LiveCommentDensity;
+}
+
+export type LiveCommentDensity = 'low' | 'medium' | 'high';
+
+export interface LiveComment {
+  id: number;
+  videoId: number;
+  userId: number;
+  username: string;
+  content: string;
+  timestamp: number; // Playback position in seconds
+  createdAt: string;
+}
+
+export type PlaylistVisibility = 'public' | 'unlisted' | 'private';
+
+export interface Playlist {
+  id: number;
+  userId: number;
+  name: string;
+  description?: string | null;
+  visibility: PlaylistVisibility;
+  videoIds: number[]; // In playlist order
+  thumbnail?: string | null; // First video's thumbnail
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlaylistWithVideos extends Playlist {
+  videos: Video[]; // In playlist order
+}
+
+export type PlaylistRepeatMode = 'off' | 'all' | 'one';
+
+export interface Clip {
+  id: number;
+  userId: number;
+  videoId: number;
+  title: string;
+  start: number; // Seconds into the source video
+  end: number;
+  views: number;
+  createdAt: string;
+}
+
+export interface ClipWithVideo extends Clip {
+  video: VideoDetails;
+  username: string;
+}
+
+export interface WatchPartyParticipant {
+  userId: number;
+  username: string;
+  avatar?: string | null;
+}
+
+export interface WatchPartyPlayback {
+  playing: boolean;
+  position: number; // Seconds, as of when the message was sent
+  rate: number;
+}
+
+export interface WatchParty {
+  id: string;
+  videoId: number;
+  hostId: number;
+  participants: WatchPartyParticipant[];
+  playback: WatchPartyPlayback;
+}
+
+export interface WatchPartyChatMessage {
+  id: string;
+  userId: number;
+  username: string;
+  content: string;
+  sentAt: string;
+}
+
+export interface PlaybackErrorReport {
+  code: number; // MediaError code
+  message: string;
+  position: number;
+}
+
+// Quality-of-experience numbers for one viewing of one video
+export interface PlaybackSessionReport {
+  sessionId: string;
+  videoId: number;
+  streamType: StreamType;
+  startedAt: string;
+  startupTimeMs: number | null; // From play request to first frame; null if not measured
+  rebufferCount: number;
+  rebufferDurationMs: number;
+  watchTimeMs: number;
+  droppedFrames: number;
+  totalFrames: number;
+  rendition: number | null; // Height in pixels at the end of the session
+  renditionSwitches: number;
+  errors: PlaybackErrorReport[];
+}
+
+// Aggregates over every reported session of a video, for the admin view
+export interface VideoPlaybackStats {
+  videoId: number;
+  title: string;
+  sessions: number;
+  avgStartupTimeMs: number | null;
+  rebufferRatio: number; // Stalled time / (stalled + watched time)
+  rebuffersPerSession: number;
+  errorRate: number; // Share of sessions with at least one media error
+  droppedFrameRate: number;
+  renditions: { height: number; share: number }[];
+}
+
+// Diagnostics sent when a viewer reports a playback problem
+export interface PlaybackProblemReport {
+  videoId: number;
+  errorKind: string | null;
+  errorMessage: string | null;
+  errorCode: number | null;
+  streamType: StreamType;
+  rendition: number | null;
+  position: number;
+  networkState: number;
+  readyState: number;
+  connection: string | null; // navigator.connection.effectiveType, where supported
+  userAgent: string;
+  url: string;
+}